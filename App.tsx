@@ -2,15 +2,28 @@ import React, { useState } from 'react';
 import { CharacterCreator } from './components/CharacterCreator';
 import { GameWorld } from './components/GameWorld';
 import { CharacterAnalysis } from './components/CharacterAnalysis';
+import { SaveMenu } from './components/SaveMenu';
+import { CharacterRoster } from './components/CharacterRoster';
+import { DrawingPad } from './components/DrawingPad';
+import { SkinEditor } from './components/SkinEditor';
+import { addCharacter } from './utils/characterLibrary';
+import { randomSeed } from './utils/worldGen';
+import { GameSession, WorldState } from './utils/saveGame';
+import { AIProviderId, getPreferredProviderId, setPreferredProviderId } from './utils/aiProvider';
+import { SkinFormat, SkinTexture } from './components/skinFormats';
 
 export enum AppState {
   CREATING,
+  SKETCHING,
+  ROSTER,
   ANALYZING,
+  EDITING,
   PLAYING
 }
 
 export interface CharacterData {
-  imageData: string; // The AI generated texture (Split View: Front | Back)
+  imageData: string; // Character texture: AI view sheet or an imported skin
+  skinFormat?: SkinFormat; // Texture layout; absent means the older front | back split
   name: string;
   description: string;
   userPrompt: string; 
@@ -24,33 +37,144 @@ export interface CharacterData {
 export default function App() {
   const [appState, setAppState] = useState<AppState>(AppState.CREATING);
   const [userPrompt, setUserPrompt] = useState<string>("");
+  const [sketchData, setSketchData] = useState<string | undefined>(undefined); // Sketch-guided texture input
+  const [importedSkin, setImportedSkin] = useState<SkinTexture | undefined>(undefined); // Replaces texture generation
   const [character, setCharacter] = useState<CharacterData | null>(null);
+  const [worldSeed, setWorldSeed] = useState<number>(() => randomSeed());
+  const [savedWorld, setSavedWorld] = useState<WorldState | undefined>(undefined);
+  // Bumped on every load so GameWorld remounts with fresh state
+  const [sessionId, setSessionId] = useState(0);
+  const [showLoadMenu, setShowLoadMenu] = useState(false);
+  const [providerId, setProviderId] = useState<AIProviderId>(() => getPreferredProviderId());
 
-  const handleCreationSubmit = (prompt: string) => {
+  const handleProviderChange = (id: AIProviderId) => {
+    setProviderId(id);
+    setPreferredProviderId(id);
+  };
+
+  const handleCreationSubmit = (prompt: string, seed: number) => {
+    setUserPrompt(prompt);
+    setSketchData(undefined);
+    setImportedSkin(undefined);
+    setWorldSeed(seed);
+    setSavedWorld(undefined);
+    setAppState(AppState.ANALYZING);
+  };
+
+  const handleSketchSubmit = (imageData: string, prompt: string) => {
+    setUserPrompt(prompt);
+    setSketchData(imageData);
+    setImportedSkin(undefined);
+    setSavedWorld(undefined);
+    setAppState(AppState.ANALYZING);
+  };
+
+  const handleSkinImport = (skin: SkinTexture, prompt: string, seed: number) => {
     setUserPrompt(prompt);
+    setSketchData(undefined);
+    setImportedSkin(skin);
+    setWorldSeed(seed);
+    setSavedWorld(undefined);
     setAppState(AppState.ANALYZING);
   };
 
   const handleAnalysisComplete = (data: CharacterData) => {
     setCharacter(data);
+    setAppState(AppState.EDITING);
+  };
+
+  // The editor hands back the final texture (or the original when skipped)
+  const handleEditorDone = (imageData: string) => {
+    if (!character) return;
+    const finished = { ...character, imageData };
+    setCharacter(finished);
+    setAppState(AppState.PLAYING);
+    // Keep every forged hero in the roster; a storage failure must not block play
+    addCharacter(finished).catch(err => console.error("Could not store character:", err));
+  };
+
+  // Roster heroes skip analysis and start in a fresh world
+  const handlePlayFromRoster = (data: CharacterData) => {
+    setCharacter(data);
+    setUserPrompt(data.userPrompt);
+    setSavedWorld(undefined);
+    setSessionId(id => id + 1);
+    setAppState(AppState.PLAYING);
+  };
+
+  // Loading skips creation and analysis entirely
+  const handleLoadSession = (session: GameSession) => {
+    setCharacter(session.character);
+    setUserPrompt(session.character.userPrompt);
+    setWorldSeed(session.seed);
+    setSavedWorld(session.world);
+    setSessionId(id => id + 1);
+    setShowLoadMenu(false);
     setAppState(AppState.PLAYING);
   };
 
   return (
     <div className="w-full h-screen relative">
       {appState === AppState.CREATING && (
-        <CharacterCreator onComplete={handleCreationSubmit} />
+        <CharacterCreator 
+          onComplete={handleCreationSubmit} 
+          providerId={providerId}
+          onProviderChange={handleProviderChange}
+          onLoadGame={() => setShowLoadMenu(true)} 
+          onOpenRoster={() => setAppState(AppState.ROSTER)}
+          onOpenSketch={(seed) => {
+            setWorldSeed(seed);
+            setAppState(AppState.SKETCHING);
+          }}
+          onImportSkin={handleSkinImport}
+        />
+      )}
+
+      {appState === AppState.SKETCHING && (
+        <DrawingPad 
+          onComplete={handleSketchSubmit} 
+          onBack={() => setAppState(AppState.CREATING)}
+        />
+      )}
+
+      {appState === AppState.ROSTER && (
+        <CharacterRoster 
+          onPlay={handlePlayFromRoster}
+          onReforge={(prompt) => handleCreationSubmit(prompt, worldSeed)}
+          onBack={() => setAppState(AppState.CREATING)}
+        />
+      )}
+
+      {showLoadMenu && (
+        <SaveMenu onLoad={handleLoadSession} onClose={() => setShowLoadMenu(false)} />
       )}
 
       {appState === AppState.ANALYZING && (
         <CharacterAnalysis 
           userPrompt={userPrompt}
+          sketchData={sketchData}
+          presetSkin={importedSkin}
+          providerId={providerId}
           onComplete={handleAnalysisComplete} 
         />
       )}
 
+      {appState === AppState.EDITING && character && (
+        <SkinEditor 
+          character={character}
+          onSave={handleEditorDone}
+          onSkip={() => handleEditorDone(character.imageData)}
+        />
+      )}
+
       {appState === AppState.PLAYING && character && (
-        <GameWorld character={character} />
+        <GameWorld 
+          key={sessionId}
+          character={character} 
+          seed={worldSeed} 
+          initialState={savedWorld}
+          onLoadSession={handleLoadSession}
+        />
       )}
     </div>
   );
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BoxUVs, SkinFormat, SkinPart, UVMap, getSkinUVs, isPixelSkin } from './skinFormats';
+
+// --- 3D Block Character ---
+// A jointed box rig textured from a single skin image (layouts in skinFormats).
+
+// --- Rig ---
+// Joint pivots relative to their parent, and the boxes hanging off each one.
+// The scene component and the GLB exporter are both built from these tables.
+
+export type RigJoint =
+  | 'head' | 'body'
+  | 'armL' | 'lowerArmL' | 'armR' | 'lowerArmR'  // Shoulder / elbow pivots
+  | 'legL' | 'lowerLegL' | 'legR' | 'lowerLegR'; // Hip / knee pivots
+
+type Vec3 = [number, number, number];
+
+export const RIG_JOINTS: Record<RigJoint, { parent: RigJoint | null; position: Vec3 }> = {
+  head:      { parent: null,   position: [0, 1.5, 0] },
+  body:      { parent: null,   position: [0, 0.75, 0] },
+  armL:      { parent: null,   position: [-0.32, 1.35, 0] },
+  lowerArmL: { parent: 'armL', position: [0, -0.35, 0] },
+  armR:      { parent: null,   position: [0.32, 1.35, 0] },
+  lowerArmR: { parent: 'armR', position: [0, -0.35, 0] },
+  legL:      { parent: null,   position: [-0.11, 0.75, 0] },
+  lowerLegL: { parent: 'legL', position: [0, -0.38, 0] },
+  legR:      { parent: null,   position: [0.11, 0.75, 0] },
+  lowerLegR: { parent: 'legR', position: [0, -0.38, 0] },
+};
+
+export const RIG_JOINT_IDS = Object.keys(RIG_JOINTS) as RigJoint[];
+
+export interface RigBox {
+  joint: RigJoint;
+  part: SkinPart;
+  size: Vec3;
+  offset: Vec3; // Box centre relative to its joint
+}
+
+export const RIG_BOXES: RigBox[] = [
+  { joint: 'head', part: 'head', size: [0.5, 0.5, 0.5], offset: [0, 0, 0] },
+  // Body - Thicker depth for volume
+  { joint: 'body', part: 'torso', size: [0.4, 0.75, 0.28], offset: [0, 0, 0] },
+  { joint: 'armL', part: 'upperArmL', size: [0.18, 0.35, 0.18], offset: [0, -0.175, 0] },
+  { joint: 'lowerArmL', part: 'lowerArmL', size: [0.16, 0.35, 0.16], offset: [0, -0.175, 0] },
+  { joint: 'armR', part: 'upperArmR', size: [0.18, 0.35, 0.18], offset: [0, -0.175, 0] },
+  { joint: 'lowerArmR', part: 'lowerArmR', size: [0.16, 0.35, 0.16], offset: [0, -0.175, 0] },
+  { joint: 'legL', part: 'upperLegL', size: [0.20, 0.38, 0.20], offset: [0, -0.19, 0] },
+  { joint: 'lowerLegL', part: 'lowerLegL', size: [0.18, 0.38, 0.18], offset: [0, -0.19, 0] },
+  { joint: 'legR', part: 'upperLegR', size: [0.20, 0.38, 0.20], offset: [0, -0.19, 0] },
+  { joint: 'lowerLegR', part: 'lowerLegR', size: [0.18, 0.38, 0.18], offset: [0, -0.19, 0] },
+];
+
+export interface JointPose {
+  rotation: Vec3;
+  y?: number; // Animated pivot height, when the joint bobs
+}
+
+export type RigPose = Record<RigJoint, JointPose>;
+
+// What the rig is doing; each motion has its own procedural cycle
+export type RigMotion = 'idle' | 'walk' | 'swim' | 'airborne';
+
+const WALK_SPEED = 12;
+const LIMB_RANGE = 0.8; // Increased swing range
+const SWIM_STROKE = 4;  // Arm sculls; the legs flutter twice as fast
+
+// Treading water: arms scull out to the sides, legs flutter kick
+const swimPose = (t: number): RigPose => {
+  const scull = Math.sin(t * SWIM_STROKE);
+  const kick = Math.sin(t * SWIM_STROKE * 2) * 0.35;
+  const bounce = scull * 0.02;
+
+  return {
+    head: { rotation: [-0.15, 0, 0], y: 1.55 + bounce }, // Chin up out of the water
+    body: { rotation: [0, 0, 0], y: 0.85 + bounce },
+    armL: { rotation: [-0.4, 0, -0.8 - scull * 0.4], y: 1.4 + bounce },
+    lowerArmL: { rotation: [-0.6, 0, 0] },
+    armR: { rotation: [-0.4, 0, 0.8 + scull * 0.4], y: 1.4 + bounce },
+    lowerArmR: { rotation: [-0.6, 0, 0] },
+    legL: { rotation: [kick, 0, 0], y: 0.75 + bounce },
+    lowerLegL: { rotation: [0.3 + Math.max(0, kick), 0, 0] },
+    legR: { rotation: [-kick, 0, 0], y: 0.75 + bounce },
+    lowerLegR: { rotation: [0.3 + Math.max(0, -kick), 0, 0] },
+  };
+};
+
+// Mid-jump or falling: arms thrown out, one knee tucked
+const AIRBORNE_POSE: RigPose = {
+  head: { rotation: [0, 0, 0], y: 1.55 },
+  body: { rotation: [0, 0, 0], y: 0.85 },
+  armL: { rotation: [-0.5, 0, -0.6], y: 1.4 },
+  lowerArmL: { rotation: [-0.4, 0, 0] },
+  armR: { rotation: [-0.5, 0, 0.6], y: 1.4 },
+  lowerArmR: { rotation: [-0.4, 0, 0] },
+  legL: { rotation: [-0.6, 0, 0], y: 0.75 },
+  lowerLegL: { rotation: [0.9, 0, 0] },
+  legR: { rotation: [0.2, 0, 0], y: 0.75 },
+  lowerLegR: { rotation: [0.4, 0, 0] },
+};
+
+// Procedural animation for a motion at time t (seconds)
+export const computePose = (t: number, motion: RigMotion): RigPose => {
+  if (motion === 'swim') return swimPose(t);
+  if (motion === 'airborne') return AIRBORNE_POSE;
+
+  const isWalk = motion === 'walk';
+  const speed = WALK_SPEED;
+  const bounce = isWalk ? Math.abs(Math.sin(t * speed * 2)) * 0.05 : Math.sin(t) * 0.01;
+  const bodyTilt = isWalk ? Math.sin(t * speed) * 0.02 : 0;
+
+  const armL = isWalk ? Math.sin(t * speed) * LIMB_RANGE : Math.sin(t) * 0.05;
+  const armR = isWalk ? Math.sin(t * speed + Math.PI) * LIMB_RANGE : -Math.sin(t) * 0.05;
+  const legL = isWalk ? Math.sin(t * speed) * LIMB_RANGE : 0;
+  const legR = isWalk ? Math.sin(t * speed + Math.PI) * LIMB_RANGE : 0;
+
+  // Elbows curl when the arm swings forward; knees bend when the leg moves back/up
+  const elbowL = isWalk ? Math.max(0, Math.sin(t * speed)) * 0.5 : 0.1;
+  const elbowR = isWalk ? Math.max(0, Math.sin(t * speed + Math.PI)) * 0.5 : 0.1;
+  const kneeL = isWalk ? Math.max(0, Math.sin(t * speed - 0.5)) * 1.0 : 0;
+  const kneeR = isWalk ? Math.max(0, Math.sin(t * speed + Math.PI - 0.5)) * 1.0 : 0;
+
+  return {
+    head: { rotation: [0, Math.sin(t * 0.3) * 0.05, Math.sin(t * 0.1) * 0.02], y: 1.55 + bounce },
+    body: { rotation: [0, Math.sin(t * speed) * 0.05, bodyTilt], y: 0.85 + bounce }, // Counter twist
+    armL: { rotation: [-armL, 0, 0.1], y: 1.4 + bounce }, // Slight A-pose
+    lowerArmL: { rotation: [-elbowL, 0, 0] },
+    armR: { rotation: [-armR, 0, -0.1], y: 1.4 + bounce },
+    lowerArmR: { rotation: [-elbowR, 0, 0] },
+    legL: { rotation: [legL, 0, 0], y: 0.75 + bounce },
+    lowerLegL: { rotation: [kneeL, 0, 0] },
+    legR: { rotation: [legR, 0, 0], y: 0.75 + bounce },
+    lowerLegR: { rotation: [kneeR, 0, 0] },
+  };
+};
+
+// Writes the skin regions onto a BoxGeometry's faces
+export const applyBoxUVs = (geometry: THREE.BufferGeometry, uvs: BoxUVs) => {
+  const uvAttribute = geometry.attributes.uv;
+
+  const mapFace = (faceIndex: number, map: UVMap, flipX = false) => {
+      const offset = faceIndex * 4;
+      const u0 = flipX ? map.uMax : map.uMin;
+      const u1 = flipX ? map.uMin : map.uMax;
+      const v0 = map.vMin;
+      const v1 = map.vMax;
+
+      uvAttribute.setXY(offset + 0, u0, v1); // TL
+      uvAttribute.setXY(offset + 1, u1, v1); // TR
+      uvAttribute.setXY(offset + 2, u0, v0); // BL
+      uvAttribute.setXY(offset + 3, u1, v0); // BR
+  };
+
+  // Front (4), Back (5), Right (0), Left (1), Top (2), Bottom (3)
+  mapFace(4, uvs.front);
+  mapFace(5, uvs.back);
+  mapFace(0, uvs.right ?? uvs.side);
+  mapFace(1, uvs.left ?? uvs.side);
+  mapFace(2, uvs.top);
+  mapFace(3, uvs.bottom);
+
+  uvAttribute.needsUpdate = true;
+};
+
+const BoxWithUV: React.FC<{
+  position?: [number, number, number];
+  args: [number, number, number]; 
+  texture: THREE.Texture | null;
+  uvs: BoxUVs;
+}> = ({ position, args, texture, uvs }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useLayoutEffect(() => {
+    if (!meshRef.current) return;
+    applyBoxUVs(meshRef.current.geometry, uvs);
+  }, [texture, uvs]);
+
+  return (
+    <mesh ref={meshRef} position={position} castShadow receiveShadow>
+      <boxGeometry args={args} />
+      <meshStandardMaterial map={texture} roughness={0.6} metalness={0.2} />
+    </mesh>
+  );
+};
+
+export const BlockyCharacter: React.FC<{ 
+  textureUrl: string; 
+  skinFormat?: SkinFormat;
+  motion: RigMotion;
+  hideHead?: boolean; // First-person camera sits inside it
+}> = ({ textureUrl, skinFormat, motion, hideHead = false }) => {
+  const group = useRef<THREE.Group>(null);
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  
+  // Pivot groups for hierarchical animation
+  const jointRefs = useRef<Partial<Record<RigJoint, THREE.Group>>>({});
+
+  useEffect(() => {
+    // The skin editor swaps the URL after every stroke; a slow earlier load must not win
+    let cancelled = false;
+    const loader = new THREE.TextureLoader();
+    loader.load(textureUrl, (tex) => {
+      if (cancelled) {
+        tex.dispose();
+        return;
+      }
+      tex.colorSpace = THREE.SRGBColorSpace;
+      if (isPixelSkin(skinFormat)) {
+        // Keep classic skins crisp
+        tex.minFilter = THREE.NearestFilter;
+        tex.magFilter = THREE.NearestFilter;
+        tex.generateMipmaps = false;
+      } else {
+        // High Quality Filtering for less pixelated look
+        tex.minFilter = THREE.LinearMipMapLinearFilter; 
+        tex.magFilter = THREE.LinearFilter; 
+        tex.generateMipmaps = true;
+        tex.anisotropy = 16;
+      }
+      setTexture(tex);
+    });
+    return () => { cancelled = true; };
+  }, [textureUrl, skinFormat]);
+
+  // Frees each texture once a newer one replaces it, and the last one on unmount
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  useFrame((state) => {
+     if (!group.current) return;
+     const pose = computePose(state.clock.elapsedTime, motion);
+     for (const joint of RIG_JOINT_IDS) {
+         const pivot = jointRefs.current[joint];
+         if (!pivot) continue;
+         const { rotation, y } = pose[joint];
+         pivot.rotation.set(rotation[0], rotation[1], rotation[2]);
+         if (y !== undefined) pivot.position.y = y;
+     }
+  });
+
+  if (!texture) return null;
+  const skinUVs = getSkinUVs(skinFormat);
+
+  const renderJoint = (joint: RigJoint): React.ReactNode => (
+    <group key={joint} ref={(el) => { jointRefs.current[joint] = el ?? undefined; }} position={RIG_JOINTS[joint].position} visible={!(hideHead && joint === 'head')}>
+        {RIG_BOXES.filter(box => box.joint === joint).map(box => (
+            <BoxWithUV key={box.part} position={box.offset} args={box.size} texture={texture} uvs={skinUVs[box.part]} />
+        ))}
+        {RIG_JOINT_IDS.filter(child => RIG_JOINTS[child].parent === joint).map(renderJoint)}
+    </group>
+  );
+
+  return (
+    <group ref={group}>
+        {RIG_JOINT_IDS.filter(joint => RIG_JOINTS[joint].parent === null).map(renderJoint)}
+        
+        {/* Contact shadow, only while the feet are on the ground */}
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} visible={motion === 'idle' || motion === 'walk'}>
+            <circleGeometry args={[0.6, 32]} />
+            <meshBasicMaterial color="black" opacity={0.3} transparent />
+        </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Camera, SlidersHorizontal } from 'lucide-react';
+import { CAMERA_MODES, CAMERA_SETTING_RANGES, CameraMode, CameraSettings } from '../utils/cameraModes';
+
+interface CameraPanelProps {
+  mode: CameraMode;
+  settings: CameraSettings;
+  onModeChange: (mode: CameraMode) => void;
+  onSettingsChange: (settings: CameraSettings) => void;
+}
+
+// Mode switcher plus the active mode's settings
+export const CameraPanel: React.FC<CameraPanelProps> = ({ mode, settings, onModeChange, onSettingsChange }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const modeSettings = settings[mode] as Record<string, number>;
+
+  const setField = (field: string, value: number) => {
+    onSettingsChange({ ...settings, [mode]: { ...settings[mode], [field]: value } });
+  };
+
+  return (
+    <div className="w-full bg-slate-900/80 border border-slate-700 rounded-lg p-1.5 text-xs text-slate-300 space-y-1.5">
+      <div className="flex items-center gap-1">
+        <Camera size={14} className="text-cyan-400 flex-shrink-0 mx-1" />
+        {CAMERA_MODES.map(entry => (
+          <button
+            key={entry.mode}
+            onClick={() => onModeChange(entry.mode)}
+            className={`flex-1 px-1.5 py-1 rounded font-bold transition ${mode === entry.mode ? 'bg-cyan-600 text-white' : 'hover:bg-slate-800 hover:text-cyan-400'}`}
+          >
+            {entry.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={`p-1 rounded transition ${showSettings ? 'text-cyan-400' : 'hover:text-cyan-400'}`}
+          title="Camera settings"
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="space-y-1 px-1 pb-1">
+          {Object.keys(modeSettings).map(field => {
+            const range = CAMERA_SETTING_RANGES[field];
+            return (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-16 text-slate-400">{range.label}</span>
+                <input
+                  type="range"
+                  min={range.min}
+                  max={range.max}
+                  step={range.step}
+                  value={modeSettings[field]}
+                  onChange={(e) => setField(field, Number(e.target.value))}
+                  className="flex-1 accent-cyan-500"
+                />
+                <span className="w-8 text-right font-mono">{modeSettings[field]}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
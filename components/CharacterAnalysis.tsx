@@ -1,119 +1,186 @@
-import React, { useEffect, useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { RefreshCw, Pencil, SkipForward, AlertTriangle, Check } from 'lucide-react';
 import { CharacterData } from '../App';
+import { AIProviderId, CharacterProfile, getAIProvider } from '../utils/aiProvider';
+import { withRetry, withTimeout } from '../utils/retry';
+import { LayoutReport, SkinLayoutError, validateSkinLayout } from '../utils/textureLayout';
+import { SkinTexture, isPixelSkin } from './skinFormats';
 
 interface Props {
   userPrompt: string;
+  sketchData?: string; // Optional DrawingPad output (PNG data URL) to guide the texture
+  presetSkin?: SkinTexture; // Imported skin; only the profile is generated
+  providerId: AIProviderId;
   onComplete: (data: CharacterData) => void;
 }
 
-export const CharacterAnalysis: React.FC<Props> = ({ userPrompt, onComplete }) => {
-  const [status, setStatus] = useState("Initializing Neural Core...");
-  const [previewImage, setPreviewImage] = useState<string | null>(null);
+type Phase = 'texture' | 'profile';
 
-  useEffect(() => {
-    const analyzeCharacter = async () => {
-      try {
-        if (!process.env.API_KEY) {
-           throw new Error("No API Key");
-        }
+interface AnalysisError {
+  phase: Phase;
+  message: string;
+  flaggedTexture?: SkinTexture; // Texture that failed layout checks; the player may keep it anyway
+}
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MAX_ATTEMPTS = 3;
+const MAX_LAYOUT_ATTEMPTS = 2; // Generations tried before a bad layout is flagged
+const RETRY_BASE_DELAY_MS = 1000;
+// Image generation is much slower than the JSON call
+const PHASE_TIMEOUT_MS: Record<Phase, number> = { texture: 60000, profile: 20000 };
 
-        // --- Phase 1: Generate Texture Map ---
-        setStatus("Generating Skin Texture...");
-        
-        // Optimized Prompt for Blocky Character Mapping
-        // We need: Left Half = Front, Right Half = Back
-        // Vertical layout: Top=Head, Mid=Body, Bottom=Legs
-        const texturePrompt = `
-          Generate a texture skin for a Minecraft-style blocky character.
-          Subject: ${userPrompt}.
-          
-          CRITICAL FORMAT REQUIREMENTS:
-          1. The image must be a square aspect ratio.
-          2. Divide vertically into TWO EQUAL columns:
-             - LEFT HALF: The FRONT view of the character.
-             - RIGHT HALF: The BACK view of the character.
-          3. Divide horizontally into THREE zones (approximate):
-             - TOP 25%: Head/Face.
-             - MIDDLE 40%: Torso and Arms.
-             - BOTTOM 35%: Legs/Feet.
-          
-          Style:
-          - Vibrant, high-contrast pixel art or detailed cartoon style.
-          - Symmetrical standing pose.
-          - No background (or solid white/grey). 
-          - Fill the space efficiently.
-        `;
-
-        const imageResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { text: texturePrompt }
-                ]
-            }
+export const CharacterAnalysis: React.FC<Props> = ({ userPrompt, sketchData, presetSkin, providerId, onComplete }) => {
+  const [status, setStatus] = useState("Initializing Neural Core...");
+  const [previewImage, setPreviewImage] = useState<SkinTexture | null>(null);
+  const [layoutNotes, setLayoutNotes] = useState<string[]>([]); // What the layout check adjusted on the preview
+  const [prompt, setPrompt] = useState(userPrompt);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const [draft, setDraft] = useState<string | null>(null); // Prompt being edited after a failure
+
+  // Each run gets an id; results from superseded runs (or after unmount) are dropped
+  const runIdRef = useRef(0);
+  const textureRef = useRef<SkinTexture | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const finish = useCallback((runId: number, texture: SkinTexture, currentPrompt: string, profile: CharacterProfile) => {
+    // Wait a moment to show the loading state
+    setTimeout(() => {
+        if (runIdRef.current !== runId) return;
+        onCompleteRef.current({
+            imageData: texture.imageData,
+            skinFormat: texture.format,
+            userPrompt: currentPrompt,
+            ...profile
         });
+    }, 1500);
+  }, []);
 
-        let textureUrl = "";
-        const parts = imageResponse.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData) {
-                    textureUrl = `data:image/png;base64,${part.inlineData.data}`;
-                    setPreviewImage(textureUrl);
-                    break;
-                }
-            }
-        }
+  // Runs the pipeline starting at `from`; a profile-only run reuses the texture already made
+  const run = useCallback(async (from: Phase, currentPrompt: string) => {
+    const runId = ++runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+    const provider = getAIProvider(providerId);
+    let phase: Phase = from;
+    setError(null);
 
-        if (!textureUrl) throw new Error("Failed to generate texture");
+    const attempt = <T,>(label: string, task: () => Promise<T>) => withRetry(
+      () => withTimeout(task(), PHASE_TIMEOUT_MS[phase], label), // `phase` is set before each call
+      {
+        attempts: MAX_ATTEMPTS,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        onRetry: (n) => { if (isCurrent()) setStatus(`${label} failed. Retrying (${n}/${MAX_ATTEMPTS})...`); },
+      }
+    );
 
-        // --- Phase 2: Generate Stats & Lore ---
-        setStatus("Calibrating Animation Rig & Bio-Stats...");
-        
-        const statsResponse = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: `Generate RPG stats and a cool fantasy/sci-fi name for this character: "${userPrompt}".
-                     Return valid JSON with fields: 
-                     - name (string)
-                     - description (string, max 120 chars)
-                     - stats { strength (1-10), speed (1-10), magic (1-10) }.
-                     Do not use Markdown.`,
-          config: {
-              responseMimeType: "application/json"
-          }
-        });
+    try {
+      // --- Phase 1: Generate Texture Map ---
+      let texture = textureRef.current;
+      if (from === 'texture' || !texture) {
+        phase = 'texture';
+        let report: LayoutReport | null = null;
+        for (let layoutTry = 1; layoutTry <= MAX_LAYOUT_ATTEMPTS; layoutTry++) {
+          const feedback = report?.problems;
+          setStatus(feedback ? "Layout Off. Re-Prompting..." : sketchData ? "Tracing Your Sketch..." : "Generating Skin Texture...");
+          const raw = await attempt("Texture generation", () => provider.generateTexture({ prompt: currentPrompt, sketchData, feedback }));
+          if (!isCurrent()) return;
+
+          setStatus("Checking Skin Layout...");
+          report = await validateSkinLayout(raw, provider.textureFormat, provider.fullBleed);
+          if (!isCurrent()) return;
+          setPreviewImage({ imageData: report.imageData, format: report.format });
+          setLayoutNotes(report.notes);
+          if (!report.problems.length) break;
+        }
+        if (!report || report.problems.length) {
+          throw new SkinLayoutError(report?.problems ?? [], report ? { imageData: report.imageData, format: report.format } : undefined);
+        }
 
-        const text = statsResponse.text;
-        if (!text) throw new Error("No analysis returned");
-        const data = JSON.parse(text);
-
-        // Wait a moment to show the loading state
-        setTimeout(() => {
-            onComplete({
-                imageData: textureUrl,
-                name: data.name || "Unknown Hero",
-                description: data.description || "A mysterious traveler.",
-                userPrompt: userPrompt,
-                stats: {
-                    strength: data.stats?.strength || 5,
-                    speed: data.stats?.speed || 5,
-                    magic: data.stats?.magic || 5
-                }
-            });
-        }, 1500);
-
-      } catch (error) {
-        console.error("Analysis failed:", error);
-        setStatus("Connection Lost. Retrying...");
-        // Simple retry mechanism could go here, or just error out
+        texture = { imageData: report.imageData, format: report.format };
+        textureRef.current = texture;
       }
-    };
 
-    analyzeCharacter();
-  }, [userPrompt, onComplete]);
+      // --- Phase 2: Generate Stats & Lore ---
+      phase = 'profile';
+      setStatus("Calibrating Animation Rig & Bio-Stats...");
+      const profile = await attempt("Bio-stat analysis", () => provider.generateProfile(currentPrompt));
+      if (!isCurrent()) return;
+
+      setStatus("Character Ready");
+      finish(runId, texture, currentPrompt, profile);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error("Analysis failed:", err);
+      setError({
+        phase,
+        message: err instanceof Error ? err.message : String(err),
+        flaggedTexture: err instanceof SkinLayoutError ? err.texture : undefined,
+      });
+      setStatus(phase === 'texture' ? "Texture Generation Failed" : "Bio-Stat Analysis Failed");
+    }
+  }, [providerId, sketchData, finish]);
+
+  // Imported skins are used as-is, so the pipeline starts at the profile
+  const resetTexture = useCallback(() => {
+    textureRef.current = presetSkin ?? null;
+    setPreviewImage(textureRef.current);
+    setLayoutNotes([]);
+  }, [presetSkin]);
+
+  useEffect(() => {
+    setPrompt(userPrompt);
+    resetTexture();
+    run(presetSkin ? 'profile' : 'texture', userPrompt);
+    return () => { runIdRef.current++; };
+  }, [userPrompt, presetSkin, run, resetTexture]);
+
+  const handleRetry = () => {
+    if (error) run(error.phase, prompt);
+  };
+
+  const handleEditSubmit = () => {
+    const trimmed = draft?.trim();
+    if (!trimmed) return;
+    setDraft(null);
+    setPrompt(trimmed);
+    resetTexture();
+    run(presetSkin ? 'profile' : 'texture', trimmed);
+  };
+
+  // Accept a texture the layout check flagged and carry on with the profile
+  const handleKeepFlagged = () => {
+    if (!error?.flaggedTexture) return;
+    textureRef.current = error.flaggedTexture;
+    run('profile', prompt);
+  };
+
+  // Fill whatever is missing from the offline backend so the player is never stuck
+  const handleFallback = async () => {
+    const runId = ++runIdRef.current;
+    const offline = getAIProvider('local');
+    setError(null);
+    setStatus("Using Fallback Profile...");
+    let phase: Phase = 'profile';
+    try {
+      let texture = textureRef.current;
+      if (!texture) {
+        phase = 'texture';
+        texture = { imageData: await offline.generateTexture({ prompt, sketchData }), format: offline.textureFormat };
+        if (runIdRef.current !== runId) return;
+        textureRef.current = texture;
+        setPreviewImage(texture);
+        phase = 'profile';
+      }
+      const profile = await offline.generateProfile(prompt);
+      if (runIdRef.current !== runId) return;
+      setStatus("Character Ready");
+      finish(runId, texture, prompt, profile);
+    } catch (err) {
+      if (runIdRef.current !== runId) return;
+      console.error("Fallback failed:", err);
+      setError({ phase, message: err instanceof Error ? err.message : String(err) });
+      setStatus(phase === 'texture' ? "Texture Generation Failed" : "Bio-Stat Analysis Failed");
+    }
+  };
 
   return (
     <div className="flex flex-col items-center justify-center h-full bg-slate-950 text-white space-y-8 overflow-hidden">
@@ -124,7 +191,7 @@ export const CharacterAnalysis: React.FC<Props> = ({ userPrompt, onComplete }) =
         
         {previewImage ? (
             <div className="relative w-56 h-56 bg-white rounded-md overflow-hidden shadow-[0_0_50px_rgba(6,182,212,0.5)] animate-pulse">
-                <img src={previewImage} alt="Generated Texture" className="w-full h-full object-contain" />
+                <img src={previewImage.imageData} alt="Generated Texture" className="w-full h-full object-contain" style={isPixelSkin(previewImage.format) ? { imageRendering: 'pixelated' } : undefined} />
                 <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent"></div>
                 <div className="absolute bottom-2 left-2 text-xs font-mono text-cyan-300">TEXTURE_MAP_GENERATED</div>
             </div>
@@ -140,14 +207,64 @@ export const CharacterAnalysis: React.FC<Props> = ({ userPrompt, onComplete }) =
         <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400 animate-pulse">
             {status}
         </h2>
-        <p className="text-slate-500 text-sm font-mono uppercase tracking-widest">
-            System Processing
-        </p>
+        {error ? (
+          <p className="text-red-400 text-sm font-mono flex items-center justify-center gap-2">
+            <AlertTriangle size={14} /> {error.message}
+          </p>
+        ) : (
+          <p className="text-slate-500 text-sm font-mono uppercase tracking-widest">
+              System Processing
+          </p>
+        )}
+        {layoutNotes.length > 0 && (
+          <p className="text-[11px] text-slate-500 font-mono max-w-md mx-auto">{layoutNotes.join(' · ')}</p>
+        )}
       </div>
 
-      <div className="absolute bottom-0 left-0 w-full h-1 bg-slate-800">
+      {error && draft === null && (
+        <div className="flex flex-wrap justify-center gap-3 z-10">
+          <button onClick={handleRetry} className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-sm font-bold">
+            <RefreshCw size={16} /> Retry {error.phase === 'texture' ? 'Texture' : 'Stats'}
+          </button>
+          {error.flaggedTexture && (
+            <button onClick={handleKeepFlagged} className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold">
+              <Check size={16} /> Use Texture Anyway
+            </button>
+          )}
+          <button onClick={() => setDraft(prompt)} className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold">
+            <Pencil size={16} /> Edit Prompt
+          </button>
+          <button onClick={handleFallback} className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold">
+            <SkipForward size={16} /> {error.phase === 'texture' ? 'Use Offline Skin & Stats' : 'Use Fallback Stats'}
+          </button>
+        </div>
+      )}
+
+      {error && draft !== null && (
+        <div className="w-full max-w-md space-y-2 z-10 px-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full h-24 bg-slate-900/80 border border-slate-700 rounded-lg p-3 text-sm outline-none focus:border-cyan-500 resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleEditSubmit}
+              disabled={!draft.trim()}
+              className="flex-1 flex items-center justify-center gap-2 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-sm font-bold disabled:opacity-50"
+            >
+              <RefreshCw size={16} /> Forge Again
+            </button>
+            <button onClick={() => setDraft(null)} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!error && <div className="absolute bottom-0 left-0 w-full h-1 bg-slate-800">
           <div className="h-full bg-cyan-500 animate-progress w-full origin-left scale-x-0" style={{animation: 'grow 4s infinite linear'}}></div>
-      </div>
+      </div>}
       <style>{`@keyframes grow { 0% { transform: scaleX(0); } 100% { transform: scaleX(1); } }`}</style>
     </div>
   );
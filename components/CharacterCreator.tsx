@@ -1,21 +1,53 @@
-import React, { useState } from 'react';
-import { Sparkles, Wand2, User, Shield, Zap } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Sparkles, Wand2, User, Shield, Zap, Globe, Dices, FolderOpen, Users, PenTool, Cpu, Upload, AlertTriangle } from 'lucide-react';
+import { parseSeed, randomSeed } from '../utils/worldGen';
+import { AIProviderId, AI_PROVIDERS, isGeminiConfigured } from '../utils/aiProvider';
+import { importClassicSkin } from '../utils/skinImport';
+import { SkinTexture } from './skinFormats';
 
 interface CharacterCreatorProps {
-  onComplete: (prompt: string) => void;
+  onComplete: (prompt: string, seed: number) => void;
+  providerId: AIProviderId;
+  onProviderChange: (id: AIProviderId) => void;
+  onLoadGame: () => void;
+  onOpenRoster: () => void;
+  onOpenSketch: (seed: number) => void;
+  onImportSkin: (skin: SkinTexture, prompt: string, seed: number) => void;
 }
 
-export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onComplete }) => {
+export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onComplete, providerId, onProviderChange, onLoadGame, onOpenRoster, onOpenSketch, onImportSkin }) => {
   const [description, setDescription] = useState("");
   const [style, setStyle] = useState("Cyberpunk");
+  const [seedInput, setSeedInput] = useState(() => String(randomSeed()));
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const styles = ["Cyberpunk", "Fantasy Knight", "Anime", "Minecraft", "Robot", "Wizard"];
 
+  // Empty seed field means "surprise me"
+  const resolveSeed = () => seedInput.trim() ? parseSeed(seedInput) : randomSeed();
+
   const handleGenerate = () => {
     if (!description.trim()) return;
     // Combine description with style for better results
     const fullPrompt = `${style} style. ${description}`;
-    onComplete(fullPrompt);
+    onComplete(fullPrompt, resolveSeed());
+  };
+
+  // Imported skins only need a profile; the description (if any) flavours it
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-picking the same file after an error
+    if (!file) return;
+    setImportError(null);
+    try {
+      const skin = await importClassicSkin(file);
+      const name = file.name.replace(/\.png$/i, '');
+      const prompt = description.trim() ? `${style} style. ${description}` : `${style} style. A hero based on the skin "${name}"`;
+      onImportSkin(skin, prompt, resolveSeed());
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
   };
 
   return (
@@ -81,6 +113,53 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onComplete }
              <button onClick={() => setDescription("A dark assassin with a hood and purple eyes")} className="hover:text-cyan-400 transition">Assassin</button>
           </div>
 
+          {/* AI Backend */}
+          <div>
+            <label className="block text-sm font-bold text-cyan-400 mb-3 flex items-center gap-2">
+               <Cpu size={16} /> AI Backend
+            </label>
+            <div className="flex flex-wrap gap-2 items-center">
+              {AI_PROVIDERS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => onProviderChange(p.id)}
+                  className={`px-4 py-2 rounded-full text-sm font-bold transition-all duration-300 ${
+                    providerId === p.id
+                    ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/30'
+                    : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+              {providerId === 'gemini' && !isGeminiConfigured() && (
+                <span className="text-xs text-amber-400">No API key configured - use Offline to play without one.</span>
+              )}
+            </div>
+          </div>
+
+          {/* World Seed */}
+          <div>
+            <label className="block text-sm font-bold text-cyan-400 mb-3 flex items-center gap-2">
+               <Globe size={16} /> World Seed
+            </label>
+            <div className="flex gap-2">
+              <input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="Number or phrase - same seed, same world"
+                className="flex-1 bg-slate-900/80 border border-slate-700 rounded-xl px-4 py-3 text-white font-mono placeholder-slate-500 focus:border-cyan-500 focus:ring-2 focus:ring-cyan-500/20 outline-none transition"
+              />
+              <button
+                onClick={() => setSeedInput(String(randomSeed()))}
+                className="px-4 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-xl transition"
+                title="Random Seed"
+              >
+                <Dices size={20} />
+              </button>
+            </div>
+          </div>
+
           <button
             onClick={handleGenerate}
             disabled={!description.trim()}
@@ -91,6 +170,44 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onComplete }
             <Sparkles className={`transition ${description.trim() ? 'animate-pulse' : ''}`} />
             Forge 3D Model
           </button>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <button
+              onClick={() => onOpenSketch(resolveSeed())}
+              className="py-3 bg-slate-700/60 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition flex items-center justify-center gap-2"
+            >
+              <PenTool size={18} />
+              Sketch Mode
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="py-3 bg-slate-700/60 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition flex items-center justify-center gap-2"
+              title="Use a 64x64 blocky-game skin PNG"
+            >
+              <Upload size={18} />
+              Import Skin
+            </button>
+            <button
+              onClick={onOpenRoster}
+              className="py-3 bg-slate-700/60 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition flex items-center justify-center gap-2"
+            >
+              <Users size={18} />
+              Hero Roster
+            </button>
+            <button
+              onClick={onLoadGame}
+              className="py-3 bg-slate-700/60 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition flex items-center justify-center gap-2"
+            >
+              <FolderOpen size={18} />
+              Load Saved Game
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept="image/png,.png" className="hidden" onChange={handleImportFile} />
+          {importError && (
+            <p className="text-red-400 text-sm font-mono flex items-center gap-2">
+              <AlertTriangle size={14} /> {importError}
+            </p>
+          )}
         </div>
 
         <div className="grid grid-cols-3 gap-4 text-center text-slate-500 text-sm font-mono">
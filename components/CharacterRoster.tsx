@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Play, Copy, Trash2, RefreshCw, Users, X, Download } from 'lucide-react';
+import { CharacterData } from '../App';
+import { RosterEntry, listCharacters, duplicateCharacter, deleteCharacter } from '../utils/characterLibrary';
+import { downloadCharacterGLB } from './characterExport';
+import { isPixelSkin } from './skinFormats';
+
+interface CharacterRosterProps {
+  onPlay: (character: CharacterData) => void;
+  onReforge: (prompt: string) => void;
+  onBack: () => void;
+}
+
+const StatBar: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+  <div className="flex items-center justify-between gap-2">
+    <span>{label}</span>
+    <div className="w-20 h-1.5 bg-slate-700 rounded overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${value * 10}%` }}></div>
+    </div>
+  </div>
+);
+
+export const CharacterRoster: React.FC<CharacterRosterProps> = ({ onPlay, onReforge, onBack }) => {
+  const [entries, setEntries] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Entry currently being re-forged, with its editable prompt
+  const [reforging, setReforging] = useState<{ id: string; prompt: string } | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCharacters());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the roster');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (entry: RosterEntry) => {
+    try {
+      await duplicateCharacter(entry);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not duplicate the hero');
+      return;
+    }
+    refresh();
+  };
+
+  const handleDownload = async (entry: RosterEntry) => {
+    try {
+      await downloadCharacterGLB(entry.character);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Model export failed');
+    }
+  };
+
+  const handleDelete = async (entry: RosterEntry) => {
+    try {
+      await deleteCharacter(entry.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the hero');
+      return;
+    }
+    refresh();
+  };
+
+  return (
+    <div className="flex flex-col items-center min-h-screen h-full overflow-y-auto bg-[#0f172a] p-6 text-white">
+      <div className="max-w-5xl w-full space-y-6">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300">
+            <ArrowLeft size={20} />
+          </button>
+          <h1 className="text-3xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 flex items-center gap-3">
+            <Users className="text-cyan-400" /> Hero Roster
+          </h1>
+        </div>
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        {!loading && entries.length === 0 && !error && (
+          <div className="text-center text-slate-500 py-16">No heroes forged yet. Create one and it will appear here.</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {entries.map(entry => {
+            const { character } = entry;
+            const isReforging = reforging?.id === entry.id;
+            return (
+              <div key={entry.id} className="bg-slate-800/50 border border-slate-700 rounded-2xl p-4 flex gap-4">
+                <div className="w-28 h-28 flex-shrink-0 bg-white rounded-lg overflow-hidden">
+                  <img src={character.imageData} alt={character.name} className="w-full h-full object-contain" style={isPixelSkin(character.skinFormat) ? { imageRendering: 'pixelated' } : undefined} />
+                </div>
+
+                <div className="flex-1 min-w-0 flex flex-col gap-2">
+                  <div>
+                    <h2 className="font-bold text-cyan-400 truncate">{character.name}</h2>
+                    <p className="text-xs text-slate-400 line-clamp-2">{character.description}</p>
+                  </div>
+
+                  <div className="space-y-1 text-[10px] font-mono text-slate-300">
+                    <StatBar label="STR" value={character.stats.strength} color="bg-red-500" />
+                    <StatBar label="SPD" value={character.stats.speed} color="bg-green-500" />
+                    <StatBar label="MAG" value={character.stats.magic} color="bg-purple-500" />
+                  </div>
+
+                  {isReforging ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={reforging.prompt}
+                        onChange={(e) => setReforging({ id: entry.id, prompt: e.target.value })}
+                        className="w-full h-20 bg-slate-900/80 border border-slate-700 rounded-lg p-2 text-xs outline-none focus:border-cyan-500 resize-none"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => onReforge(reforging.prompt.trim())}
+                          disabled={!reforging.prompt.trim()}
+                          className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-xs font-bold disabled:opacity-50"
+                        >
+                          <RefreshCw size={14} /> Forge
+                        </button>
+                        <button onClick={() => setReforging(null)} className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg">
+                          <X size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-[10px] font-mono text-slate-500 truncate" title={character.userPrompt}>
+                      "{character.userPrompt}"
+                    </p>
+                  )}
+
+                  <div className="flex gap-2 mt-auto">
+                    <button
+                      onClick={() => onPlay(character)}
+                      className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 rounded-lg text-xs font-bold"
+                    >
+                      <Play size={14} /> Play
+                    </button>
+                    <button onClick={() => handleDuplicate(entry)} className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg" title="Duplicate">
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => setReforging({ id: entry.id, prompt: character.userPrompt })}
+                      className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                      title="Re-forge with a tweaked prompt"
+                    >
+                      <RefreshCw size={14} />
+                    </button>
+                    <button onClick={() => handleDownload(entry)} className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg" title="Download model (GLB)">
+                      <Download size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(entry)} className="p-1.5 bg-red-500/20 hover:bg-red-500/40 text-red-400 rounded-lg" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { WorldObject, BiomeType } from '../utils/worldGen';
+import { LodTier } from '../utils/lod';
+import { Season, getSeasonalColor } from './seasons';
+
+// --- Instanced Chunk Objects ---
+// Every object type is broken into parts (trunk, canopy, cap, ...). Each part
+// is drawn as one InstancedMesh per chunk with per-instance transform and
+// colour, so a chunk costs one draw call per part instead of one per mesh.
+
+export type PartId =
+  | 'treeTrunk' | 'treeCanopy'
+  | 'palmTrunk' | 'palmFrond'
+  | 'mushroomStem' | 'mushroomCap'
+  | 'rock' | 'bush' | 'reed' | 'deadbush'
+  | 'grass' | 'flower' | 'crystal'
+  | 'ruins' | 'cactus'
+  | 'block' | 'pillar' | 'roof';
+
+interface PartDef {
+  geometry: THREE.BufferGeometry;
+  roughness?: number;
+  wireframe?: boolean;
+  glow?: boolean; // Emissive tinted by the instance colour
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}
+
+// Unit geometries, shared by all chunks. Per-object size comes from the instance scale.
+export const PARTS: Record<PartId, PartDef> = {
+  treeTrunk:    { geometry: new THREE.CylinderGeometry(0.15, 0.25, 1, 6), castShadow: true, receiveShadow: true },
+  treeCanopy:   { geometry: new THREE.ConeGeometry(1.2, 1, 8), castShadow: true },
+  palmTrunk:    { geometry: new THREE.CylinderGeometry(0.1, 0.15, 1, 5), castShadow: true },
+  palmFrond:    { geometry: new THREE.BoxGeometry(0.8, 0.05, 2.5) },
+  mushroomStem: { geometry: new THREE.CylinderGeometry(0.2, 0.3, 1, 6) },
+  mushroomCap:  { geometry: new THREE.ConeGeometry(0.8, 0.5, 8) },
+  rock:         { geometry: new THREE.DodecahedronGeometry(0.8, 0), roughness: 0.9, castShadow: true, receiveShadow: true },
+  bush:         { geometry: new THREE.SphereGeometry(0.6, 7, 6), roughness: 1, castShadow: true },
+  reed:         { geometry: new THREE.CylinderGeometry(0.03, 0.03, 1, 4) },
+  deadbush:     { geometry: new THREE.DodecahedronGeometry(0.3, 0), wireframe: true, castShadow: true },
+  grass:        { geometry: new THREE.ConeGeometry(1, 1, 3), castShadow: true, receiveShadow: true },
+  flower:       { geometry: new THREE.TorusKnotGeometry(0.5, 0.2, 16, 4), castShadow: true, receiveShadow: true },
+  crystal:      { geometry: new THREE.OctahedronGeometry(1, 0), glow: true, castShadow: true, receiveShadow: true },
+  ruins:        { geometry: new THREE.BoxGeometry(1, 1, 1), roughness: 0.9, castShadow: true, receiveShadow: true },
+  cactus:       { geometry: new THREE.BoxGeometry(0.8, 1, 0.8), castShadow: true, receiveShadow: true },
+  // Structure parts
+  block:        { geometry: new THREE.BoxGeometry(1, 1, 1), roughness: 0.9, castShadow: true, receiveShadow: true },
+  pillar:       { geometry: new THREE.CylinderGeometry(0.5, 0.5, 1, 8), roughness: 0.9, castShadow: true, receiveShadow: true },
+  roof:         { geometry: new THREE.ConeGeometry(Math.SQRT1_2, 1, 4).rotateY(Math.PI / 4), roughness: 0.9, castShadow: true }, // Square pyramid, 1 wide
+};
+
+export interface PartInstances {
+  matrices: THREE.Matrix4[];
+  colors: THREE.Color[];
+}
+
+// Scratch objects for matrix composition
+const _objMatrix = new THREE.Matrix4();
+const _partMatrix = new THREE.Matrix4();
+const _pos = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _euler = new THREE.Euler();
+const _scale = new THREE.Vector3();
+
+// Small decor that is not worth drawing beyond the near ring
+const DECOR: WorldObject['type'][] = ['grass', 'flower', 'reed', 'deadbush', 'bush'];
+
+// Objects that stay visible at any distance
+const LANDMARKS: WorldObject['type'][] = ['ruins', 'crystal', 'block', 'pillar', 'roof'];
+
+// Flattens a chunk's objects into per-part instance lists. Transforms match the
+// old per-object meshes: object group (position + yaw), then the part offset.
+// Lower tiers drop decor and collapse multi-part objects into a single impostor part.
+export const collectPartInstances = (
+  objects: WorldObject[],
+  season: Season,
+  biome: BiomeType,
+  tier: LodTier = 'near'
+): Map<PartId, PartInstances> => {
+  const out = new Map<PartId, PartInstances>();
+
+  const add = (
+    part: PartId,
+    color: string,
+    position: [number, number, number],
+    scale: [number, number, number],
+    rotation: [number, number, number] = [0, 0, 0]
+  ) => {
+    let entry = out.get(part);
+    if (!entry) {
+      entry = { matrices: [], colors: [] };
+      out.set(part, entry);
+    }
+    _pos.set(...position);
+    _quat.setFromEuler(_euler.set(...rotation));
+    _scale.set(...scale);
+    _partMatrix.compose(_pos, _quat, _scale);
+    entry.matrices.push(new THREE.Matrix4().multiplyMatrices(_objMatrix, _partMatrix));
+    entry.colors.push(new THREE.Color(color));
+  };
+
+  for (const obj of objects) {
+    if (obj.type === 'cloud') continue;
+    if (tier !== 'near' && DECOR.includes(obj.type)) continue;
+    if (tier === 'far' && !LANDMARKS.includes(obj.type)) continue;
+
+    _pos.set(obj.x, obj.y, obj.z);
+    _quat.setFromEuler(_euler.set(0, obj.rotation, 0));
+    _objMatrix.compose(_pos, _quat, _scale.set(1, 1, 1));
+
+    const [sx, sy, sz] = obj.scale;
+
+    // Determine Seasonal Colors
+    let renderColor = obj.color;
+    if (['tree', 'bush', 'grass', 'palm'].includes(obj.type)) {
+      renderColor = getSeasonalColor(obj.color, 'foliage', season, biome);
+    }
+    if (obj.type === 'palm' && season === 'Winter') renderColor = '#8d99ae'; // Dead/Frozen palm
+
+    if (tier === 'mid') {
+      switch (obj.type) {
+        case 'tree':
+          // Canopy stretched down to the ground reads as a whole tree from afar
+          add('treeCanopy', renderColor, [0, sy * 0.6, 0], [sx, sy * 1.2, sx]);
+          continue;
+        case 'palm':
+          add('palmTrunk', '#8a6a4b', [0, sy / 2, 0], [sx, sy, sx]);
+          add('bush', renderColor, [0, sy, 0], [2 * sx, 0.4, 2 * sx]);
+          continue;
+        case 'mushroom':
+          add('mushroomCap', obj.color, [0, sy, 0], [sx, sx + sy, sx]);
+          continue;
+      }
+    }
+
+    switch (obj.type) {
+      case 'tree':
+        add('treeTrunk', '#4a3b2a', [0, sy / 3, 0], [sx, sy / 2, sx]);
+        add('treeCanopy', renderColor, [0, sy * 0.8, 0], [sx, sy * 0.8, sx]);
+        break;
+      case 'palm':
+        add('palmTrunk', '#8a6a4b', [0, sy / 2, 0], [sx, sy, sx], [0.1, 0, 0]);
+        for (let idx = 0; idx < 5; idx++) {
+          add('palmFrond', renderColor, [0, sy, 0.1 * sy], [sx, 1, sx], [0.5, idx * (Math.PI * 2 / 5), 0]);
+        }
+        break;
+      case 'mushroom':
+        add('mushroomStem', '#f1faee', [0, sy / 2, 0], [sx, sy, sx]);
+        add('mushroomCap', obj.color, [0, sy, 0], [sx, sx, sx]);
+        break;
+      case 'rock':
+        add('rock', season === 'Winter' ? '#dee2e6' : obj.color, [0, 0, 0], obj.scale);
+        break;
+      case 'bush':
+        add('bush', renderColor, [0, 0.4, 0], obj.scale);
+        break;
+      case 'reed':
+        [-0.1, 0.1].forEach(ox => {
+          add('reed', season === 'Autumn' ? '#d4a373' : obj.color, [ox, sy / 2, 0], [1, sy, 1]);
+        });
+        break;
+      case 'deadbush':
+        add('deadbush', obj.color, [0, 0, 0], [1, 1, 1]);
+        break;
+      case 'grass':
+        add('grass', renderColor, [0, 0, 0], obj.scale);
+        break;
+      case 'flower':
+        add('flower', obj.color, [0, 0, 0], obj.scale);
+        break;
+      case 'crystal':
+        add('crystal', obj.color, [0, 0, 0], obj.scale);
+        break;
+      case 'ruins':
+        add('ruins', obj.color, [0, 0, 0], obj.scale);
+        break;
+      case 'cactus':
+        add('cactus', obj.color, [0, 0, 0], [sx, sy, sz]);
+        break;
+      case 'block':
+      case 'pillar':
+        add(obj.type, obj.color, [0, sy / 2, 0], [sx, sy, sz]);
+        break;
+      case 'roof':
+        add('roof', season === 'Winter' ? '#e9ecef' : obj.color, [0, sy / 2, 0], [sx, sy, sz]);
+        break;
+    }
+  }
+
+  return out;
+};
+
+// Makes the emissive term follow the per-instance colour, so crystals glow in their own hue
+const tintEmissiveByInstance = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.fragmentShader = shader.fragmentShader.replace(
+    '#include <emissivemap_fragment>',
+    '#include <emissivemap_fragment>\n  totalEmissiveRadiance *= vColor.rgb;'
+  );
+};
+
+const InstancedPart: React.FC<{ part: PartId; instances: PartInstances; shadows: boolean; glowBoost: number }> = ({ part, instances, shadows, glowBoost }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const def = PARTS[part];
+  const count = instances.matrices.length;
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let i = 0; i < count; i++) {
+      mesh.setMatrixAt(i, instances.matrices[i]);
+      mesh.setColorAt(i, instances.colors[i]);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [instances, count]);
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[def.geometry, undefined, count]}
+      castShadow={shadows && def.castShadow}
+      receiveShadow={shadows && def.receiveShadow}
+    >
+      <meshStandardMaterial
+        roughness={def.roughness ?? 1}
+        wireframe={def.wireframe}
+        emissive={def.glow ? '#ffffff' : '#000000'}
+        emissiveIntensity={def.glow ? 0.5 * glowBoost : 0}
+        onBeforeCompile={def.glow ? tintEmissiveByInstance : undefined}
+      />
+    </instancedMesh>
+  );
+};
+
+export const ChunkObjects: React.FC<{
+  objects: WorldObject[];
+  season: Season;
+  biome: BiomeType;
+  tier?: LodTier;
+  glowBoost?: number; // Multiplies the emissive strength of glowing parts
+}> = ({ objects, season, biome, tier = 'near', glowBoost = 1 }) => {
+  const parts = useMemo(() => collectPartInstances(objects, season, biome, tier), [objects, season, biome, tier]);
+
+  return (
+    <>
+      {Array.from(parts.entries()).map(([part, instances]) => (
+        // Instance count is fixed at construction, so a new count means a new mesh
+        <InstancedPart key={`${part}-${instances.matrices.length}`} part={part} instances={instances} shadows={tier === 'near'} glowBoost={glowBoost} />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { BINDING_SLOTS, DEFAULT_BINDINGS, INPUT_ACTIONS, InputAction, KeyBindings, keyLabel, rebind } from '../utils/input';
+
+interface ControlsMenuProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+export const ControlsMenu: React.FC<ControlsMenuProps> = ({ bindings, onChange, onClose }) => {
+  // Slot waiting for a key press
+  const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    // Capture phase, so the key neither moves the player nor reaches other handlers
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') onChange(rebind(bindings, listening.action, listening.slot, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', capture, true);
+    return () => window.removeEventListener('keydown', capture, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="relative w-full max-w-md bg-slate-800/95 border border-slate-700 rounded-2xl shadow-2xl p-6 text-white space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <Keyboard size={20} className="text-cyan-400" /> Controls
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="space-y-1">
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center gap-2 bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-1.5">
+              <div className="flex-1 text-sm">{label}</div>
+              {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                const active = listening?.action === action && listening.slot === slot;
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => setListening({ action, slot })}
+                    className={`w-20 px-2 py-1 rounded text-xs font-mono font-bold border transition ${active ? 'bg-cyan-600 border-cyan-400 animate-pulse' : 'bg-slate-700 border-slate-600 hover:border-cyan-500'}`}
+                  >
+                    {active ? '...' : keyLabel(bindings[action][slot])}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="text-[11px] text-slate-400 leading-relaxed">
+          Click a slot, then press a key (Esc cancels).<br />
+          Gamepad: left stick moves, right stick looks, A jumps, X strikes, Y casts, LT or L3 sprints, View switches camera.
+        </div>
+
+        <div className="flex pt-2 border-t border-slate-700">
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm"
+          >
+            <RotateCcw size={16} /> Reset to Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Pen, Eraser, RotateCcw, Check, Sparkles } from 'lucide-react';
+import { Pen, Eraser, RotateCcw, Check, Sparkles, ArrowLeft } from 'lucide-react';
 
 interface DrawingPadProps {
   onComplete: (imageData: string, prompt: string) => void;
+  onBack?: () => void;
 }
 
-export const DrawingPad: React.FC<DrawingPadProps> = ({ onComplete }) => {
+export const DrawingPad: React.FC<DrawingPadProps> = ({ onComplete, onBack }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
@@ -100,13 +101,18 @@ export const DrawingPad: React.FC<DrawingPadProps> = ({ onComplete }) => {
       {/* Left Panel: Instructions & Input */}
       <div className="max-w-md w-full flex flex-col gap-6">
         <div>
+          {onBack && (
+            <button onClick={onBack} className="mb-4 flex items-center gap-2 text-sm text-slate-400 hover:text-cyan-400 transition">
+              <ArrowLeft size={16} /> Back to Forge
+            </button>
+          )}
           <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 mb-2">
             Design Your Hero
           </h1>
           <p className="text-slate-400">
             1. Describe your character.<br/>
             2. Draw a rough stick figure or shape.<br/>
-            3. AI will fuse them into a 3D model.
+            3. AI will paint a skin that follows your sketch's shape and colours.
           </p>
         </div>
 
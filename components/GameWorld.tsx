@@ -1,351 +1,71 @@
-import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Stars, Sky, OrbitControls, Sparkles, Cloud } from '@react-three/drei';
 import * as THREE from 'three';
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import { CharacterData } from '../App';
-import { generateChunkData, ChunkData, CHUNK_SIZE } from '../utils/worldGen';
+import { ChunkData, CHUNK_SIZE, TERRAIN_RESOLUTION, WATER_LEVEL, getTerrainHeight, sampleChunkHeight } from '../utils/worldGen';
+import { createChunkLoader, ChunkLoader, ChunkCoord } from '../utils/chunkLoader';
+import { DEFAULT_CHUNK_BUDGET, ChunkSummary, summarizeChunk, selectEvictions } from '../utils/chunkCache';
+import { getChunkColliders, resolveCollisions, Collider, PLAYER_RADIUS } from '../utils/collision';
+import { Abilities, Vitals, BASE_WALK_SPEED, BREAKABLES, ORB_COST, STRIKE_COOLDOWN, getAbilities, initialVitals, tickVitals, castOrb, findBreakTarget, strikesToBreak, objectKey, withoutBroken } from '../utils/playerStats';
+import { BodyState, SWIM_BOB, SWIM_SPEED_FACTOR, createBody, stepBody } from '../utils/playerPhysics';
+import { InputManager, KeyBindings, createInputManager, loadBindings, saveBindings, keyLabel } from '../utils/input';
+import { CameraMode, CameraSettings, loadCameraSettings, saveCameraSettings, nextCameraMode } from '../utils/cameraModes';
+import { createCameraRig } from './cameraRig';
 import { Minimap } from './Minimap';
-import { Sun, Moon, CloudRain, Snowflake, Wind, Leaf, Clock, Play, Pause, Zap } from 'lucide-react';
+import { BlockyCharacter, RigMotion } from './BlockyCharacter';
+import { SkinPortrait } from './SkinPortrait';
+import { SkinFormat } from './skinFormats';
+import { downloadCharacterGLB } from './characterExport';
+import { ChunkObjects } from './ChunkObjects';
+import { SaveMenu } from './SaveMenu';
+import { ControlsMenu } from './ControlsMenu';
+import { CameraPanel } from './CameraPanel';
+import { PhotoRenderer, PhotoModePanel, PhotoSettings, PhotoCaptureFn, DEFAULT_PHOTO_SETTINGS, savePhoto } from './PhotoMode';
+import { TouchControls, isTouchDevice } from './TouchControls';
+import { GameSession, WorldState, SAVE_VERSION } from '../utils/saveGame';
+import { LodTier, VIEW_DISTANCES, DEFAULT_VIEW_DISTANCE, getLodTier, getFogRange, getShadowExtent } from '../utils/lod';
+import { Season, Weather, getSeasonalColor } from './seasons';
+import { Sun, Moon, CloudRain, Snowflake, Wind, Leaf, Clock, Play, Pause, Zap, Eye, Save, Download, Lightbulb, Keyboard, Aperture } from 'lucide-react';
 
 interface GameWorldProps {
   character: CharacterData;
+  seed: number;
+  chunkBudget?: number; // Max full chunks kept in memory
+  initialState?: WorldState; // Restored from a save
+  onLoadSession?: (session: GameSession) => void;
 }
 
-type Season = 'Spring' | 'Summer' | 'Autumn' | 'Winter';
-type Weather = 'Clear' | 'Rain' | 'Snow';
 
-// --- 3D BLOCK CHARACTER UTILS ---
-
-interface UVMap {
-    uMin: number; uMax: number;
-    vMin: number; vMax: number;
-}
-
-const BoxWithUV: React.FC<{
-  position?: [number, number, number];
-  args: [number, number, number]; 
-  texture: THREE.Texture | null;
-  uvs: { front: UVMap, back: UVMap, side: UVMap, top: UVMap, bottom: UVMap };
-}> = ({ position, args, texture, uvs }) => {
+// --- Light Orb Spell ---
+// Floats over the player's shoulder while the orb timer runs. The light stays
+// in the scene at zero intensity so casting does not trigger a shader recompile.
+const LightOrb: React.FC<{ abilities: Abilities; vitalsRef: React.MutableRefObject<Vitals> }> = ({ abilities, vitalsRef }) => {
   const meshRef = useRef<THREE.Mesh>(null);
-
-  useLayoutEffect(() => {
-    if (!meshRef.current) return;
-    
-    const geo = meshRef.current.geometry;
-    const uvAttribute = geo.attributes.uv;
-    
-    const mapFace = (faceIndex: number, map: UVMap, flipX = false) => {
-        const offset = faceIndex * 4;
-        const u0 = flipX ? map.uMax : map.uMin;
-        const u1 = flipX ? map.uMin : map.uMax;
-        const v0 = map.vMin;
-        const v1 = map.vMax;
-        
-        uvAttribute.setXY(offset + 0, u0, v1); // TL
-        uvAttribute.setXY(offset + 1, u1, v1); // TR
-        uvAttribute.setXY(offset + 2, u0, v0); // BL
-        uvAttribute.setXY(offset + 3, u1, v0); // BR
-    };
-
-    // Front (4), Back (5), Right (0), Left (1), Top (2), Bottom (3)
-    mapFace(4, uvs.front);
-    mapFace(5, uvs.back); 
-    mapFace(0, uvs.side);
-    mapFace(1, uvs.side);
-    mapFace(2, uvs.top);
-    mapFace(3, uvs.bottom);
-
-    uvAttribute.needsUpdate = true;
-  }, [texture, uvs]);
-
-  return (
-    <mesh ref={meshRef} position={position} castShadow receiveShadow>
-      <boxGeometry args={args} />
-      <meshStandardMaterial map={texture} roughness={0.6} metalness={0.2} />
-    </mesh>
-  );
-};
-
-const BlockyCharacter: React.FC<{ 
-  textureUrl: string; 
-  isMoving: boolean;
-}> = ({ textureUrl, isMoving }) => {
-  const group = useRef<THREE.Group>(null);
-  const [texture, setTexture] = useState<THREE.Texture | null>(null);
-  
-  // Refs for hierarchical animation
-  const headRef = useRef<THREE.Group>(null);
-  const bodyRef = useRef<THREE.Group>(null);
-  
-  const armLRef = useRef<THREE.Group>(null);      // Shoulder Pivot
-  const lowerArmLRef = useRef<THREE.Group>(null); // Elbow Pivot
-  
-  const armRRef = useRef<THREE.Group>(null);
-  const lowerArmRRef = useRef<THREE.Group>(null);
-  
-  const legLRef = useRef<THREE.Group>(null);      // Hip Pivot
-  const lowerLegLRef = useRef<THREE.Group>(null); // Knee Pivot
-  
-  const legRRef = useRef<THREE.Group>(null);
-  const lowerLegRRef = useRef<THREE.Group>(null);
-
-  useEffect(() => {
-    const loader = new THREE.TextureLoader();
-    loader.load(textureUrl, (tex) => {
-      tex.colorSpace = THREE.SRGBColorSpace;
-      // High Quality Filtering for less pixelated look
-      tex.minFilter = THREE.LinearMipMapLinearFilter; 
-      tex.magFilter = THREE.LinearFilter; 
-      tex.generateMipmaps = true;
-      tex.anisotropy = 16;
-      setTexture(tex);
-    });
-  }, [textureUrl]);
+  const lightRef = useRef<THREE.PointLight>(null);
 
   useFrame((state) => {
-     if (!group.current) return;
-     const t = state.clock.elapsedTime;
-     const speed = 12; 
-     
-     const isWalk = isMoving;
-     const bounce = isWalk ? Math.abs(Math.sin(t * speed * 2)) * 0.05 : Math.sin(t) * 0.01;
-     const bodyTilt = isWalk ? Math.sin(t * speed) * 0.02 : 0;
-
-     // Head Animation
-     if (headRef.current) {
-         headRef.current.rotation.y = Math.sin(t * 0.3) * 0.05;
-         headRef.current.rotation.z = Math.sin(t * 0.1) * 0.02;
-         headRef.current.position.y = 1.55 + bounce;
-     }
-     
-     // Body Animation
-     if (bodyRef.current) {
-         bodyRef.current.rotation.z = bodyTilt;
-         bodyRef.current.rotation.y = Math.sin(t * speed) * 0.05; // Counter twist
-         bodyRef.current.position.y = 0.85 + bounce;
-     }
-
-     const limbRange = 0.8; // Increased swing range
-     
-     // --- ARMS ---
-     // Left Arm
-     if (armLRef.current) {
-         const rot = isWalk ? Math.sin(t * speed) * limbRange : Math.sin(t) * 0.05;
-         armLRef.current.rotation.x = -rot;
-         armLRef.current.rotation.z = 0.1; // Slight A-pose
-         armLRef.current.position.y = 1.4 + bounce;
-         
-         // Elbow Bend (Natural curl when swinging forward)
-         if (lowerArmLRef.current) {
-            const bend = isWalk ? Math.max(0, Math.sin(t * speed)) * 0.5 : 0.1;
-            lowerArmLRef.current.rotation.x = -bend; 
-         }
-     }
-     
-     // Right Arm
-     if (armRRef.current) {
-         const rot = isWalk ? Math.sin(t * speed + Math.PI) * limbRange : -Math.sin(t) * 0.05;
-         armRRef.current.rotation.x = -rot;
-         armRRef.current.rotation.z = -0.1;
-         armRRef.current.position.y = 1.4 + bounce;
-
-         // Elbow Bend
-         if (lowerArmRRef.current) {
-            const bend = isWalk ? Math.max(0, Math.sin(t * speed + Math.PI)) * 0.5 : 0.1;
-            lowerArmRRef.current.rotation.x = -bend;
-         }
-     }
-
-     // --- LEGS ---
-     // Left Leg
-     if (legLRef.current) {
-         const rot = isWalk ? Math.sin(t * speed) * limbRange : 0;
-         legLRef.current.rotation.x = rot;
-         legLRef.current.position.y = 0.75 + bounce;
-
-         // Knee Bend (Bends when leg is moving back/up)
-         if (lowerLegLRef.current) {
-            const kneeBend = isWalk ? Math.max(0, Math.sin(t * speed - 0.5)) * 1.0 : 0;
-            lowerLegLRef.current.rotation.x = kneeBend;
-         }
-     }
-     
-     // Right Leg
-     if (legRRef.current) {
-         const rot = isWalk ? Math.sin(t * speed + Math.PI) * limbRange : 0;
-         legRRef.current.rotation.x = rot;
-         legRRef.current.position.y = 0.75 + bounce;
-
-         if (lowerLegRRef.current) {
-             const kneeBend = isWalk ? Math.max(0, Math.sin(t * speed + Math.PI - 0.5)) * 1.0 : 0;
-             lowerLegRRef.current.rotation.x = kneeBend;
-         }
-     }
+    const timeLeft = vitalsRef.current.orbTimeLeft;
+    const fade = Math.min(1, timeLeft / 2); // Dims over the last two seconds
+    const bob = Math.sin(state.clock.elapsedTime * 2) * 0.1;
+    if (meshRef.current) {
+      meshRef.current.visible = timeLeft > 0;
+      meshRef.current.position.y = 2.3 + bob;
+    }
+    if (lightRef.current) {
+      lightRef.current.intensity = abilities.orbIntensity * fade * 10;
+      lightRef.current.position.y = 2.3 + bob;
+    }
   });
 
-  if (!texture) return null;
-
-  // --- UV DEFINITIONS ---
-  // Image Layout: Left Half = Front, Right Half = Back
-  // Heights: Top 0.75-1.0 (Head), Mid 0.40-0.75 (Torso/Arms), Bot 0.0-0.40 (Legs)
-  
-  const HEAD_V = { vMin: 0.75, vMax: 1.0 };
-  const BODY_V = { vMin: 0.40, vMax: 0.75 };
-  const LEG_V  = { vMin: 0.0, vMax: 0.40 };
-
-  // Limb Splits (Vertical for joints)
-  const ARM_SPLIT = 0.58; // Y-split for elbow
-  const LEG_SPLIT = 0.20; // Y-split for knee
-
-  const uvHead = { 
-      front: { uMin: 0.125, uMax: 0.375, ...HEAD_V },
-      back: { uMin: 0.625, uMax: 0.875, ...HEAD_V },
-      side: { uMin: 0.0, uMax: 0.125, ...HEAD_V },
-      top: { uMin: 0.125, uMax: 0.375, vMin: 0.9, vMax: 1.0 }, // Fake top
-      bottom: { uMin: 0.125, uMax: 0.375, vMin: 0.75, vMax: 0.8 }
-  };
-
-  const uvTorso = {
-      front: { uMin: 0.15, uMax: 0.35, ...BODY_V },
-      back: { uMin: 0.65, uMax: 0.85, ...BODY_V },
-      side: { uMin: 0.12, uMax: 0.15, ...BODY_V },
-      top: { uMin: 0.15, uMax: 0.35, vMin: 0.74, vMax: 0.75 },
-      bottom: { uMin: 0.15, uMax: 0.35, vMin: 0.40, vMax: 0.41 }
-  };
-
-  // --- ARM UVs ---
-  // Upper Arm: Top half of arm texture
-  const uvUpperArmR = {
-      front: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: 0.75 },
-      back: { uMin: 0.85, uMax: 1.0, vMin: ARM_SPLIT, vMax: 0.75 },
-      side: { uMin: 0.0, uMax: 0.05, vMin: ARM_SPLIT, vMax: 0.75 },
-      top: { uMin: 0.0, uMax: 0.15, vMin: 0.74, vMax: 0.75 },
-      bottom: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 }
-  };
-  const uvLowerArmR = {
-      front: { uMin: 0.0, uMax: 0.15, vMin: 0.40, vMax: ARM_SPLIT },
-      back: { uMin: 0.85, uMax: 1.0, vMin: 0.40, vMax: ARM_SPLIT },
-      side: { uMin: 0.0, uMax: 0.05, vMin: 0.40, vMax: ARM_SPLIT },
-      top: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 },
-      bottom: { uMin: 0.0, uMax: 0.15, vMin: 0.40, vMax: 0.41 } // Hand
-  };
-
-  const uvUpperArmL = {
-      front: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: 0.75 },
-      back: { uMin: 0.50, uMax: 0.65, vMin: ARM_SPLIT, vMax: 0.75 },
-      side: { uMin: 0.45, uMax: 0.50, vMin: ARM_SPLIT, vMax: 0.75 },
-      top: { uMin: 0.35, uMax: 0.50, vMin: 0.74, vMax: 0.75 },
-      bottom: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 }
-  };
-  const uvLowerArmL = {
-      front: { uMin: 0.35, uMax: 0.50, vMin: 0.40, vMax: ARM_SPLIT },
-      back: { uMin: 0.50, uMax: 0.65, vMin: 0.40, vMax: ARM_SPLIT },
-      side: { uMin: 0.45, uMax: 0.50, vMin: 0.40, vMax: ARM_SPLIT },
-      top: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 },
-      bottom: { uMin: 0.35, uMax: 0.50, vMin: 0.40, vMax: 0.41 }
-  };
-
-  // --- LEG UVs ---
-  const uvUpperLegR = {
-      front: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: 0.40 },
-      back: { uMin: 0.75, uMax: 0.95, vMin: LEG_SPLIT, vMax: 0.40 },
-      side: { uMin: 0.0, uMax: 0.05, vMin: LEG_SPLIT, vMax: 0.40 },
-      top: { uMin: 0.05, uMax: 0.25, vMin: 0.39, vMax: 0.40 },
-      bottom: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 }
-  };
-  const uvLowerLegR = {
-      front: { uMin: 0.05, uMax: 0.25, vMin: 0.0, vMax: LEG_SPLIT },
-      back: { uMin: 0.75, uMax: 0.95, vMin: 0.0, vMax: LEG_SPLIT },
-      side: { uMin: 0.0, uMax: 0.05, vMin: 0.0, vMax: LEG_SPLIT },
-      top: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 },
-      bottom: { uMin: 0.05, uMax: 0.25, vMin: 0.0, vMax: 0.01 } // Foot
-  };
-
-  const uvUpperLegL = {
-      front: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: 0.40 },
-      back: { uMin: 0.55, uMax: 0.75, vMin: LEG_SPLIT, vMax: 0.40 },
-      side: { uMin: 0.45, uMax: 0.50, vMin: LEG_SPLIT, vMax: 0.40 },
-      top: { uMin: 0.25, uMax: 0.45, vMin: 0.39, vMax: 0.40 },
-      bottom: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 }
-  };
-  const uvLowerLegL = {
-      front: { uMin: 0.25, uMax: 0.45, vMin: 0.0, vMax: LEG_SPLIT },
-      back: { uMin: 0.55, uMax: 0.75, vMin: 0.0, vMax: LEG_SPLIT },
-      side: { uMin: 0.45, uMax: 0.50, vMin: 0.0, vMax: LEG_SPLIT },
-      top: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 },
-      bottom: { uMin: 0.25, uMax: 0.45, vMin: 0.0, vMax: 0.01 }
-  };
-
   return (
-    <group ref={group}>
-        {/* Head */}
-        <group ref={headRef} position={[0, 1.5, 0]}>
-             <BoxWithUV args={[0.5, 0.5, 0.5]} texture={texture} uvs={uvHead} />
-        </group>
-        
-        {/* Body - Thicker depth for volume */}
-        <group ref={bodyRef} position={[0, 0.75, 0]}>
-            <BoxWithUV args={[0.4, 0.75, 0.28]} texture={texture} uvs={uvTorso} />
-        </group>
-        
-        {/* Left Arm (Jointed) */}
-        <group ref={armLRef} position={[-0.32, 1.35, 0]}>
-            {/* Upper Arm */}
-            <group position={[0, -0.175, 0]}> 
-                <BoxWithUV args={[0.18, 0.35, 0.18]} texture={texture} uvs={uvUpperArmL} />
-                {/* Lower Arm Pivot */}
-                <group ref={lowerArmLRef} position={[0, -0.175, 0]}>
-                    <group position={[0, -0.175, 0]}>
-                        <BoxWithUV args={[0.16, 0.35, 0.16]} texture={texture} uvs={uvLowerArmL} />
-                    </group>
-                </group>
-            </group>
-        </group>
-        
-        {/* Right Arm (Jointed) */}
-        <group ref={armRRef} position={[0.32, 1.35, 0]}>
-            <group position={[0, -0.175, 0]}>
-                <BoxWithUV args={[0.18, 0.35, 0.18]} texture={texture} uvs={uvUpperArmR} />
-                <group ref={lowerArmRRef} position={[0, -0.175, 0]}>
-                    <group position={[0, -0.175, 0]}>
-                         <BoxWithUV args={[0.16, 0.35, 0.16]} texture={texture} uvs={uvLowerArmR} />
-                    </group>
-                </group>
-            </group>
-        </group>
-        
-        {/* Left Leg (Jointed) */}
-        <group ref={legLRef} position={[-0.11, 0.75, 0]}>
-            {/* Upper Leg */}
-            <group position={[0, -0.19, 0]}>
-                <BoxWithUV args={[0.20, 0.38, 0.20]} texture={texture} uvs={uvUpperLegL} />
-                {/* Knee Pivot */}
-                <group ref={lowerLegLRef} position={[0, -0.19, 0]}>
-                    <group position={[0, -0.19, 0]}>
-                        <BoxWithUV args={[0.18, 0.38, 0.18]} texture={texture} uvs={uvLowerLegL} />
-                    </group>
-                </group>
-            </group>
-        </group>
-        
-        {/* Right Leg (Jointed) */}
-        <group ref={legRRef} position={[0.11, 0.75, 0]}>
-            <group position={[0, -0.19, 0]}>
-                <BoxWithUV args={[0.20, 0.38, 0.20]} texture={texture} uvs={uvUpperLegR} />
-                <group ref={lowerLegRRef} position={[0, -0.19, 0]}>
-                    <group position={[0, -0.19, 0]}>
-                        <BoxWithUV args={[0.18, 0.38, 0.18]} texture={texture} uvs={uvLowerLegR} />
-                    </group>
-                </group>
-            </group>
-        </group>
-        
-        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]}>
-            <circleGeometry args={[0.6, 32]} />
-            <meshBasicMaterial color="black" opacity={0.3} transparent />
-        </mesh>
+    <group position={[0.6, 0, 0]}>
+      <mesh ref={meshRef} visible={false}>
+        <sphereGeometry args={[0.15, 12, 12]} />
+        <meshStandardMaterial color="#fff7d6" emissive="#ffe08a" emissiveIntensity={3} toneMapped={false} />
+      </mesh>
+      <pointLight ref={lightRef} color="#ffe8a8" intensity={0} distance={abilities.orbRange} decay={1.5} />
     </group>
   );
 };
@@ -353,34 +73,66 @@ const BlockyCharacter: React.FC<{
 // --- Player Controller Component ---
 const Player: React.FC<{ 
   textureUrl: string; 
+  skinFormat?: SkinFormat;
   position: [number, number, number];
   setGlobalPos: (pos: [number, number, number]) => void; 
   controlsRef: React.RefObject<OrbitControlsImpl>;
-}> = ({ textureUrl, position: initialPos, setGlobalPos, controlsRef }) => {
+  getGroundHeight: (x: number, z: number) => number;
+  getWaterLevel: (x: number, z: number) => number | null;
+  resolveMovement: (x: number, z: number, feetY: number) => [number, number];
+  abilities: Abilities;
+  vitalsRef: React.MutableRefObject<Vitals>;
+  onStrike: (x: number, z: number, facing: number) => void;
+  onMessage: (text: string) => void;
+  input: InputManager;
+  cameraMode: CameraMode;
+  cameraSettings: CameraSettings;
+  onCycleCamera: () => void;
+}> = ({ textureUrl, skinFormat, position: initialPos, setGlobalPos, controlsRef, getGroundHeight, getWaterLevel, resolveMovement, abilities, vitalsRef, onStrike, onMessage, input, cameraMode, cameraSettings, onCycleCamera }) => {
   const ref = useRef<THREE.Group>(null);
   const [pos, setPos] = useState<[number, number, number]>(initialPos);
-  const [isMoving, setIsMoving] = useState(false);
-  const { camera } = useThree();
+  const [motion, setMotion] = useState<RigMotion>('idle');
+  const body = useRef<BodyState>(createBody(initialPos[1]));
+  const { camera, gl } = useThree();
+  const [rig] = useState(() => createCameraRig(camera as THREE.PerspectiveCamera, () => controlsRef.current));
   
-  const keys = useRef<{ [key: string]: boolean }>({});
+  const strikeCooldown = useRef(0);
+
+  // Left-drag on the canvas steers the first-person and free-fly views
   useEffect(() => {
-    const down = (e: KeyboardEvent) => { keys.current[e.code] = true; };
-    const up = (e: KeyboardEvent) => { keys.current[e.code] = false; };
-    window.addEventListener('keydown', down);
-    window.addEventListener('keyup', up);
-    return () => {
-      window.removeEventListener('keydown', down);
-      window.removeEventListener('keyup', up);
+    const canvas = gl.domElement;
+    const drag = (e: PointerEvent) => {
+      if (e.buttons & 1) rig.addDrag(e.movementX, e.movementY);
     };
-  }, []);
+    canvas.addEventListener('pointermove', drag);
+    return () => canvas.removeEventListener('pointermove', drag);
+  }, [gl, rig]);
 
-  useFrame((state) => {
+  useFrame((state, delta) => {
     if (!ref.current) return;
 
-    const speed = 0.18;
+    const frame = input.poll();
+    if (frame.triggered.has('camera')) onCycleCamera();
+    // Free-fly takes the movement and action input; the character stands still
+    const controlling = cameraMode !== 'freeFly';
+    const vitals = vitalsRef.current;
+    const wantsMove = controlling && (frame.moveX !== 0 || frame.moveY !== 0);
+    const swimming = body.current.swimming;
+    const sprinting = wantsMove && !swimming && frame.sprint && !vitals.exhausted && vitals.stamina > 0;
+    tickVitals(vitals, abilities, delta, sprinting);
+
+    if (controlling && frame.triggered.has('cast')) {
+      onMessage(castOrb(vitals, abilities));
+    }
+    strikeCooldown.current = Math.max(0, strikeCooldown.current - delta);
+    if (controlling && frame.triggered.has('strike') && strikeCooldown.current === 0) {
+      strikeCooldown.current = STRIKE_COOLDOWN;
+      onStrike(pos[0], pos[2], ref.current.rotation.y);
+    }
+
+    const speed = abilities.walkSpeed * (sprinting ? abilities.sprintMultiplier : 1) * (swimming ? SWIM_SPEED_FACTOR : 1);
     let newX = pos[0];
     let newZ = pos[2];
-    let moving = false;
 
     const forward = new THREE.Vector3();
     const right = new THREE.Vector3();
@@ -389,78 +141,66 @@ const Player: React.FC<{
     forward.normalize();
     right.crossVectors(forward, camera.up).normalize();
 
-    if (keys.current['KeyW'] || keys.current['ArrowUp']) {
-      newX += forward.x * speed;
-      newZ += forward.z * speed;
-      moving = true;
-    }
-    if (keys.current['KeyS'] || keys.current['ArrowDown']) {
-      newX -= forward.x * speed;
-      newZ -= forward.z * speed;
-      moving = true;
-    }
-    if (keys.current['KeyA'] || keys.current['ArrowLeft']) {
-      newX -= right.x * speed;
-      newZ -= right.z * speed;
-      moving = true;
-    }
-    if (keys.current['KeyD'] || keys.current['ArrowRight']) {
-      newX += right.x * speed;
-      newZ += right.z * speed;
-      moving = true;
-    }
-
-    setIsMoving(moving);
+    if (wantsMove) {
+        // Analog input walks slower when the stick is only partly pushed
+        newX += (forward.x * frame.moveY + right.x * frame.moveX) * speed;
+        newZ += (forward.z * frame.moveY + right.z * frame.moveX) * speed;
 
-    if (moving) {
+        // Face the intended direction even when a collider blocks the step
         const targetRotation = Math.atan2(newX - pos[0], newZ - pos[2]);
         let diff = targetRotation - ref.current.rotation.y;
         while (diff > Math.PI) diff -= Math.PI * 2;
         while (diff < -Math.PI) diff += Math.PI * 2;
         ref.current.rotation.y += diff * 0.15;
 
-        setPos([newX, 0, newZ]);
-        setGlobalPos([newX, 0, newZ]);
+        // Jumping raises the feet, so taller objects can be cleared
+        [newX, newZ] = resolveMovement(newX, newZ, body.current.y);
+
+        setPos([newX, body.current.y, newZ]);
+        setGlobalPos([newX, body.current.y, newZ]);
     }
     
     ref.current.position.x = THREE.MathUtils.lerp(ref.current.position.x, newX, 0.25);
     ref.current.position.z = THREE.MathUtils.lerp(ref.current.position.z, newZ, 0.25);
-    ref.current.position.y = 0;
 
-    if (controlsRef.current) {
-        const target = new THREE.Vector3(newX, 2, newZ); 
-        controlsRef.current.target.lerp(target, 0.1);
-        controlsRef.current.update();
-        
-        const camOffset = new THREE.Vector3().subVectors(camera.position, controlsRef.current.target);
-        const desiredDist = 10;
-        if(Math.abs(camOffset.length() - desiredDist) > 1) {
-            camOffset.setLength(THREE.MathUtils.lerp(camOffset.length(), desiredDist, 0.05));
-            camera.position.copy(controlsRef.current.target).add(camOffset);
-        }
-    }
+    // Vertical physics against the surface under the rendered (lerped) position,
+    // so feet never sink into slopes
+    const px = ref.current.position.x;
+    const pz = ref.current.position.z;
+    stepBody(body.current, delta, getGroundHeight(px, pz), getWaterLevel(px, pz), controlling && frame.triggered.has('jump'));
+    const { y, grounded, swimming: inWater } = body.current;
+    ref.current.position.y = inWater ? y + Math.sin(state.clock.elapsedTime * 2) * SWIM_BOB : y;
+
+    setMotion(inWater ? 'swim' : !grounded ? 'airborne' : wantsMove ? 'walk' : 'idle');
+
+    rig.update({ mode: cameraMode, settings: cameraSettings, frame, delta, player: ref.current });
+    // First person looks where the character faces, so strikes land on what is in view
+    if (cameraMode === 'firstPerson') ref.current.rotation.y = rig.facing();
   });
 
   useEffect(() => {
      const dist = Math.sqrt(Math.pow(pos[0]-initialPos[0], 2) + Math.pow(pos[2]-initialPos[2], 2));
      if (dist > 5) {
          setPos(initialPos);
+         const groundY = getGroundHeight(initialPos[0], initialPos[2]);
+         body.current = createBody(groundY);
          if(ref.current) {
-             ref.current.position.set(initialPos[0], 0, initialPos[2]);
+             ref.current.position.set(initialPos[0], groundY, initialPos[2]);
          }
      }
   }, [initialPos]);
 
   return (
     <group ref={ref} position={initialPos}>
-       <BlockyCharacter textureUrl={textureUrl} isMoving={isMoving} />
+       <BlockyCharacter textureUrl={textureUrl} skinFormat={skinFormat} motion={motion} hideHead={cameraMode === 'firstPerson'} />
+       <LightOrb abilities={abilities} vitalsRef={vitalsRef} />
     </group>
   );
 };
 
 // --- Environment & Time System ---
 
-const EnvironmentController: React.FC<{ time: number, season: Season, weather: Weather }> = ({ time, season, weather }) => {
+const EnvironmentController: React.FC<{ time: number, season: Season, weather: Weather, viewDistance: number, focus: [number, number, number] }> = ({ time, season, weather, viewDistance, focus }) => {
   const sunRef = useRef<THREE.DirectionalLight>(null);
   const ambientRef = useRef<THREE.AmbientLight>(null);
 
@@ -485,9 +225,14 @@ const EnvironmentController: React.FC<{ time: number, season: Season, weather: W
   const isSnowing = weather === 'Snow';
   const isClear = weather === 'Clear';
 
+  const shadowExtent = getShadowExtent(viewDistance);
+
   useFrame(() => {
      if (sunRef.current) {
-         sunRef.current.position.set(sunX, sunY, sunZ);
+         // Light (and its shadow camera) travels with the player so shadows never run out
+         sunRef.current.position.set(focus[0] + sunX, focus[1] + sunY, focus[2] + sunZ);
+         sunRef.current.target.position.set(focus[0], focus[1], focus[2]);
+         sunRef.current.target.updateMatrixWorld();
          
          let intensity = isNight ? 0 : isDuskDawn ? 0.5 : 1.2;
          if (isRaining || isSnowing) intensity *= 0.4; // Dim light during storm
@@ -554,7 +299,8 @@ const EnvironmentController: React.FC<{ time: number, season: Season, weather: W
          shadow-mapSize={[2048, 2048]}
          shadow-bias={-0.0005}
        >
-          <orthographicCamera attach="shadow-camera" args={[-50, 50, 50, -50]} />
+          {/* Keyed so the shadow camera is rebuilt when the view distance changes */}
+          <orthographicCamera key={shadowExtent} attach="shadow-camera" args={[-shadowExtent, shadowExtent, shadowExtent, -shadowExtent]} />
        </directionalLight>
 
        {/* Weather Particles */}
@@ -579,52 +325,132 @@ const EnvironmentController: React.FC<{ time: number, season: Season, weather: W
 
 // --- Chunk Rendering Component ---
 
-// Helper to shift colors based on season
-const getSeasonalColor = (baseColor: string, type: string, season: Season, biome: string) => {
-    if (biome === 'snow' || biome === 'magical' || biome === 'volcanic' || biome === 'desert') return baseColor;
-  
-    const c = new THREE.Color(baseColor);
-    
-    if (type === 'ground') {
-        if (season === 'Winter') return '#e2e8f0'; // Snow cover
-        if (season === 'Autumn') { c.offsetHSL(0.05, -0.2, -0.1); return '#' + c.getHexString(); } // Dry
+// Skirt depth below the chunk edge; covers the gap where a coarse neighbour's edge
+// runs straight between samples that this chunk follows
+const SKIRT_DEPTH = 4;
+
+// Builds a displaced grid from the chunk heightmap, centred on the chunk origin.
+// `stride` skips heightmap samples for coarser distant terrain. A skirt hangs
+// from every edge so seams between chunks of different strides show no cracks.
+const createTerrainGeometry = (heights: Float32Array, stride = 1) => {
+  const segments = TERRAIN_RESOLUTION / stride;
+  const size = segments + 1;
+  const step = CHUNK_SIZE / segments;
+
+  // Edge vertices once around the grid, wound so skirt faces point outwards
+  const perimeter: number[] = [];
+  for (let i = 0; i < segments; i++) perimeter.push(i);                   // -z edge
+  for (let i = 0; i < segments; i++) perimeter.push(i * size + segments);  // +x edge
+  for (let i = segments; i > 0; i--) perimeter.push(segments * size + i);  // +z edge
+  for (let i = segments; i > 0; i--) perimeter.push(i * size);             // -x edge
+
+  const positions = new Float32Array((size * size + perimeter.length) * 3);
+  for (let iz = 0; iz < size; iz++) {
+    for (let ix = 0; ix < size; ix++) {
+      const i = iz * size + ix;
+      positions[i * 3] = ix * step - CHUNK_SIZE / 2;
+      positions[i * 3 + 1] = heights[(iz * stride) * (TERRAIN_RESOLUTION + 1) + ix * stride];
+      positions[i * 3 + 2] = iz * step - CHUNK_SIZE / 2;
+    }
+  }
+  const indices: number[] = [];
+  for (let iz = 0; iz < segments; iz++) {
+    for (let ix = 0; ix < segments; ix++) {
+      const a = iz * size + ix;
+      const b = a + 1;
+      const c = a + size;
+      const d = c + 1;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  // Separate skirt vertices, so the edge normals of the surface are unaffected
+  const skirtBase = size * size;
+  perimeter.forEach((top, k) => {
+    const i = skirtBase + k;
+    positions[i * 3] = positions[top * 3];
+    positions[i * 3 + 1] = positions[top * 3 + 1] - SKIRT_DEPTH;
+    positions[i * 3 + 2] = positions[top * 3 + 2];
+    const next = (k + 1) % perimeter.length;
+    indices.push(top, perimeter[next], i, perimeter[next], skirtBase + next, i);
+  });
+
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geo.setIndex(indices);
+  geo.computeVertexNormals();
+  return geo;
+};
+
+// Flat surface at WATER_LEVEL over every heightmap cell that dips below it.
+// Its ragged outer edge stays hidden under the banks; the visible shoreline is
+// where the terrain crosses the plane. Null for dry chunks.
+const createWaterGeometry = (heights: Float32Array) => {
+  const size = TERRAIN_RESOLUTION + 1;
+  const step = CHUNK_SIZE / TERRAIN_RESOLUTION;
+  const positions = new Float32Array(size * size * 3);
+  const normals = new Float32Array(size * size * 3);
+  for (let iz = 0; iz < size; iz++) {
+    for (let ix = 0; ix < size; ix++) {
+      const i = iz * size + ix;
+      positions[i * 3] = ix * step - CHUNK_SIZE / 2;
+      positions[i * 3 + 1] = WATER_LEVEL;
+      positions[i * 3 + 2] = iz * step - CHUNK_SIZE / 2;
+      normals[i * 3 + 1] = 1;
     }
-    if (type === 'foliage') { // Tree leaves, bushes, grass
-        if (season === 'Winter') return '#f1f5f9'; // Snow covered
-        if (season === 'Autumn') return '#e76f51'; // Orange/Red
-        if (season === 'Spring') { c.offsetHSL(0.1, 0.2, 0.1); return '#' + c.getHexString(); } // Vibrant Green
-        if (season === 'Summer') { c.offsetHSL(0, 0, -0.1); return '#' + c.getHexString(); } // Deep Green
+  }
+  const indices: number[] = [];
+  for (let iz = 0; iz < TERRAIN_RESOLUTION; iz++) {
+    for (let ix = 0; ix < TERRAIN_RESOLUTION; ix++) {
+      const a = iz * size + ix;
+      const b = a + 1;
+      const c = a + size;
+      const d = c + 1;
+      if (Math.min(heights[a], heights[b], heights[c], heights[d]) < WATER_LEVEL) {
+        indices.push(a, c, b, b, c, d);
+      }
     }
-    return baseColor;
+  }
+  if (!indices.length) return null;
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  geo.setIndex(indices);
+  return geo;
 };
 
 // Memoize chunk to prevent re-renders every frame, only update when season changes
-const Chunk = React.memo(({ data, position, season, isNight, weather }: { 
+const Chunk = React.memo(({ data, position, season, isNight, weather, tier, glowBoost }: { 
     data: ChunkData, 
     position: [number, number, number], 
     season: Season,
     isNight: boolean,
-    weather: Weather
+    weather: Weather,
+    tier: LodTier,
+    glowBoost: number
 }) => {
   
   const groundColor = getSeasonalColor(data.groundColor, 'ground', season, data.biomeType);
+  const terrainStride = tier === 'far' ? 4 : 1;
+  const terrainGeometry = useMemo(() => createTerrainGeometry(data.heights, terrainStride), [data.heights, terrainStride]);
+  useEffect(() => () => terrainGeometry.dispose(), [terrainGeometry]);
+  const waterGeometry = useMemo(() => (data.hasWater ? createWaterGeometry(data.heights) : null), [data.hasWater, data.heights]);
+  useEffect(() => () => waterGeometry?.dispose(), [waterGeometry]);
   
   // Fireflies Logic: Only appear at Night, in Clear weather, in Spring/Summer, in specific biomes
-  const showFireflies = isNight && weather === 'Clear' && (season === 'Spring' || season === 'Summer') 
+  const showFireflies = tier === 'near' && isNight && weather === 'Clear' && (season === 'Spring' || season === 'Summer') 
                         && ['forest', 'plains', 'swamp'].includes(data.biomeType);
 
   return (
     <group position={position}>
       {/* Ground */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
-        <planeGeometry args={[CHUNK_SIZE, CHUNK_SIZE]} />
+      <mesh geometry={terrainGeometry} receiveShadow={tier !== 'far'}>
         <meshStandardMaterial color={groundColor} roughness={1} />
       </mesh>
 
       {/* Water Layer */}
-      {data.hasWater && (
-        <mesh position={[0, 0.2, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-           <planeGeometry args={[CHUNK_SIZE, CHUNK_SIZE]} />
+      {waterGeometry && (
+        <mesh geometry={waterGeometry}>
            <meshStandardMaterial 
               color={data.biomeType === 'swamp' ? '#4d908e' : (season === 'Winter' ? '#a2d2ff' : '#00b4d8')} 
               transparent opacity={season === 'Winter' ? 0.8 : 0.6} roughness={0.1} metalness={0.2} 
@@ -633,7 +459,7 @@ const Chunk = React.memo(({ data, position, season, isNight, weather }: {
       )}
       
       {/* Biome Atmosphere Particles */}
-      {data.biomeType === 'magical' && (
+      {tier === 'near' && data.biomeType === 'magical' && (
          <Sparkles count={50} scale={CHUNK_SIZE} size={6} speed={0.4} opacity={0.5} color="#bfa2db" position={[0, 5, 0]} />
       )}
 
@@ -642,169 +468,112 @@ const Chunk = React.memo(({ data, position, season, isNight, weather }: {
       )}
 
       {/* Procedural Objects */}
-      {data.objects.map((obj, i) => {
-        const pos: [number, number, number] = [obj.x, obj.y, obj.z];
-        const key = `obj-${i}`;
-
-        if (obj.type === 'cloud') {
-             return (
-                 <group key={key} position={pos}>
-                     <Cloud opacity={0.5} speed={0.1} bounds={[obj.scale[0], 2, obj.scale[2]]} segments={10} color={obj.color} />
-                 </group>
-             )
-        }
-
-        if (obj.type === 'water') return null; // Handled as layer
-
-        // Determine Seasonal Colors
-        let renderColor = obj.color;
-        if (['tree', 'bush', 'grass', 'palm'].includes(obj.type)) {
-            renderColor = getSeasonalColor(obj.color, 'foliage', season, data.biomeType);
-        }
-        if (obj.type === 'palm' && season === 'Winter') renderColor = '#8d99ae'; // Dead/Frozen palm
-
-        return (
-            <group key={key} position={pos} rotation={[0, obj.rotation, 0]}>
-                {/* Trees with separate trunk and leaves */}
-                {obj.type === 'tree' && (
-                    <group>
-                        <mesh position={[0, obj.scale[1]/3, 0]} castShadow receiveShadow>
-                            <cylinderGeometry args={[0.15 * obj.scale[0], 0.25 * obj.scale[0], obj.scale[1]/2, 6]} />
-                            <meshStandardMaterial color="#4a3b2a" />
-                        </mesh>
-                        <mesh position={[0, obj.scale[1]*0.8, 0]} castShadow>
-                            <coneGeometry args={[1.2 * obj.scale[0], obj.scale[1]*0.8, 8]} />
-                            <meshStandardMaterial color={renderColor} />
-                        </mesh>
-                    </group>
-                )}
-
-                {/* Palm Trees */}
-                {obj.type === 'palm' && (
-                    <group>
-                         <mesh position={[0, obj.scale[1]/2, 0]} rotation={[0.1, 0, 0]} castShadow>
-                             <cylinderGeometry args={[0.1 * obj.scale[0], 0.15 * obj.scale[0], obj.scale[1], 5]} />
-                             <meshStandardMaterial color="#8a6a4b" />
-                         </mesh>
-                         <group position={[0, obj.scale[1], 0.1 * obj.scale[1]]}>
-                             {[0, 1, 2, 3, 4].map(idx => (
-                                 <mesh key={idx} rotation={[0.5, idx * (Math.PI*2/5), 0]} position={[0, 0, 0]}>
-                                     <boxGeometry args={[0.8 * obj.scale[0], 0.05, 2.5 * obj.scale[0]]} />
-                                     <meshStandardMaterial color={renderColor} />
-                                 </mesh>
-                             ))}
-                         </group>
-                    </group>
-                )}
-                
-                {/* Mushrooms */}
-                {obj.type === 'mushroom' && (
-                    <group>
-                        <mesh position={[0, obj.scale[1]/2, 0]}>
-                            <cylinderGeometry args={[0.2 * obj.scale[0], 0.3 * obj.scale[0], obj.scale[1], 6]} />
-                            <meshStandardMaterial color="#f1faee" />
-                        </mesh>
-                        <mesh position={[0, obj.scale[1], 0]}>
-                            <coneGeometry args={[0.8 * obj.scale[0], 0.5 * obj.scale[0], 8]} />
-                            <meshStandardMaterial color={obj.color} />
-                        </mesh>
-                    </group>
-                )}
-
-                {/* Rocks (Jagged) */}
-                {obj.type === 'rock' && (
-                    <mesh castShadow receiveShadow scale={obj.scale}>
-                        <dodecahedronGeometry args={[0.8, 0]} />
-                        <meshStandardMaterial color={season === 'Winter' ? '#dee2e6' : obj.color} roughness={0.9} />
-                    </mesh>
-                )}
-
-                {/* Bushes (Round) */}
-                {obj.type === 'bush' && (
-                    <mesh castShadow scale={obj.scale} position={[0, 0.4, 0]}>
-                         <sphereGeometry args={[0.6, 7, 6]} />
-                         <meshStandardMaterial color={renderColor} roughness={1} />
-                    </mesh>
-                )}
-
-                {/* Reeds (Thin clusters) */}
-                {obj.type === 'reed' && (
-                    <group>
-                        {[-0.1, 0.1].map((ox, idx) => (
-                            <mesh key={idx} position={[ox, obj.scale[1]/2, 0]}>
-                                <cylinderGeometry args={[0.03, 0.03, obj.scale[1], 4]} />
-                                <meshStandardMaterial color={season === 'Autumn' ? '#d4a373' : obj.color} />
-                            </mesh>
-                        ))}
-                    </group>
-                )}
+      <ChunkObjects objects={data.objects} season={season} biome={data.biomeType} tier={tier} glowBoost={glowBoost} />
 
-                {/* Dead Bushes */}
-                {obj.type === 'deadbush' && (
-                     <mesh castShadow>
-                         <dodecahedronGeometry args={[0.3, 0]} />
-                         <meshStandardMaterial color={obj.color} wireframe />
-                     </mesh>
-                )}
-                
-                {/* Simple objects fallbacks */}
-                {['grass', 'flower', 'crystal'].includes(obj.type) && (
-                    <mesh castShadow receiveShadow scale={obj.scale}>
-                        {obj.type === 'grass' ? <coneGeometry args={[1, 1, 3]} /> :
-                         obj.type === 'crystal' ? <octahedronGeometry args={[1, 0]} /> :
-                         <torusKnotGeometry args={[0.5, 0.2, 16, 4]} />
-                        }
-                        <meshStandardMaterial 
-                            color={obj.type === 'grass' ? renderColor : obj.color} 
-                            emissive={obj.type === 'crystal' ? obj.color : '#000'}
-                            emissiveIntensity={obj.type === 'crystal' ? 0.5 : 0}
-                        />
-                    </mesh>
-                )}
-
-                {obj.type === 'ruins' && (
-                    <mesh castShadow receiveShadow scale={obj.scale}>
-                         <boxGeometry args={[1, 1, 1]} />
-                         <meshStandardMaterial color={obj.color} roughness={0.9} />
-                    </mesh>
-                )}
-                
-                {obj.type === 'cactus' && (
-                    <mesh castShadow receiveShadow scale={obj.scale}>
-                         <boxGeometry args={[0.8, 1, 0.8]} />
-                         <meshStandardMaterial color={obj.color} />
-                    </mesh>
-                )}
-
-            </group>
-        );
-      })}
+      {/* Clouds stay as individual drei Clouds; there are at most a couple per chunk */}
+      {tier !== 'far' && data.objects.map((obj, i) => obj.type === 'cloud' && (
+        <group key={`cloud-${i}`} position={[obj.x, obj.y, obj.z]}>
+          <Cloud opacity={0.5} speed={0.1} bounds={[obj.scale[0], 2, obj.scale[2]]} segments={10} color={obj.color} />
+        </group>
+      ))}
     </group>
   );
 }, (prev, next) => {
     return prev.data === next.data && 
            prev.season === next.season && 
            prev.isNight === next.isNight &&
-           prev.weather === next.weather;
+           prev.weather === next.weather &&
+           prev.tier === next.tier &&
+           prev.glowBoost === next.glowBoost;
 });
 
 
 // --- Main World Component ---
-export const GameWorld: React.FC<GameWorldProps> = ({ character }) => {
-  const [playerPosition, setPlayerPosition] = useState<[number, number, number]>([0, 1, 0]);
-  const [chunks, setChunks] = useState<Map<string, ChunkData>>(new Map());
+export const GameWorld: React.FC<GameWorldProps> = ({ character, seed, chunkBudget = DEFAULT_CHUNK_BUDGET, initialState, onLoadSession }) => {
+  const [playerPosition, setPlayerPosition] = useState<[number, number, number]>(initialState?.position ?? [0, 1, 0]);
+  // Mutated in place as chunks arrive; `chunkVersion` re-renders consumers
+  const chunksRef = useRef<Map<string, ChunkData>>(new Map());
+  const [chunkVersion, setChunkVersion] = useState(0);
+  const chunks = chunksRef.current;
   const [activeChunkKeys, setActiveChunkKeys] = useState<string[]>([]);
+  const [viewDistance, setViewDistance] = useState(initialState?.viewDistance ?? DEFAULT_VIEW_DISTANCE);
+  // Everything ever generated, in summary form, for the Minimap
+  const exploredRef = useRef<Map<string, ChunkSummary>>(new Map());
+  // Eviction bookkeeping: when each chunk was last in view, and the current view
+  const lastUsedRef = useRef<Map<string, number>>(new Map());
+  const viewRef = useRef({ cx: 0, cz: 0, active: new Set<string>() });
+  // Never budget below the active view, or the view would thrash
+  const viewArea = (2 * viewDistance + 1) ** 2;
+  const chunkBudgetRef = useRef(chunkBudget);
+  chunkBudgetRef.current = Math.max(chunkBudget, Math.ceil(viewArea * 1.5));
   
   // Time & Season State
-  const [time, setTime] = useState(8.0); // 8:00 AM start
-  const [season, setSeason] = useState<Season>('Spring');
-  const [weather, setWeather] = useState<Weather>('Clear');
+  const [time, setTime] = useState(initialState?.time ?? 8.0); // 8:00 AM start
+  const [season, setSeason] = useState<Season>(initialState?.season ?? 'Spring');
+  const [weather, setWeather] = useState<Weather>(initialState?.weather ?? 'Clear');
+  const [showSaveMenu, setShowSaveMenu] = useState(false);
+  const [exportingModel, setExportingModel] = useState(false);
+  const [showControlsMenu, setShowControlsMenu] = useState(false);
+
+  // Keyboard, gamepad and touch merged into one input source for the Player
+  const [bindings, setBindings] = useState<KeyBindings>(loadBindings);
+  const [input] = useState<InputManager>(() => createInputManager(bindings));
+  const [touchEnabled] = useState(isTouchDevice);
+  useEffect(() => input.connect(), [input]);
+
+  const handleBindingsChange = useCallback((next: KeyBindings) => {
+    setBindings(next);
+    input.setBindings(next);
+    saveBindings(next);
+  }, [input]);
+
+  const [cameraMode, setCameraMode] = useState<CameraMode>('orbit');
+  const [photoMode, setPhotoMode] = useState(false);
+  const [photoSettings, setPhotoSettings] = useState<PhotoSettings>(DEFAULT_PHOTO_SETTINGS);
+  const photoRestoreRef = useRef<{ autoAdvance: boolean; cameraMode: CameraMode } | null>(null);
+  const captureRef = useRef<PhotoCaptureFn | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const cycleCameraMode = useCallback(() => setCameraMode(mode => nextCameraMode(mode)), []);
+  const handleCameraSettingsChange = useCallback((next: CameraSettings) => {
+    setCameraSettings(next);
+    saveCameraSettings(next);
+  }, []);
   
   const [autoAdvance, setAutoAdvance] = useState(true);
   const [timeSpeed, setTimeSpeed] = useState(1.0);
 
   const controlsRef = useRef<OrbitControlsImpl>(null);
 
+  // Stats -> abilities. Vitals change every frame, so the Player mutates the ref
+  // and the HUD copies it a few times a second.
+  const abilities = useMemo(() => getAbilities(character.stats), [character.stats]);
+  const vitalsRef = useRef<Vitals>(initialVitals(abilities));
+  const [vitals, setVitals] = useState<Vitals>(() => ({ ...vitalsRef.current }));
+  const [actionMessage, setActionMessage] = useState<{ text: string; id: number } | null>(null);
+  // Objects the player destroyed, per chunk id; filtered out whenever a chunk is (re)loaded
+  const brokenRef = useRef<Map<string, Set<string>>>(
+    new Map(Object.entries(initialState?.broken ?? {}).map(([id, keys]) => [id, new Set(keys)]))
+  );
+  // Strikes landed on the current target; switching targets starts over
+  const strikesRef = useRef<{ key: string; count: number } | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setVitals(prev => {
+      const v = vitalsRef.current;
+      const same = prev.stamina === v.stamina && prev.mana === v.mana && prev.orbTimeLeft === v.orbTimeLeft && prev.exhausted === v.exhausted;
+      return same ? prev : { ...v };
+    }), 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!actionMessage) return;
+    const timeout = setTimeout(() => setActionMessage(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [actionMessage]);
+
+  const showMessage = useCallback((text: string) => setActionMessage({ text, id: Date.now() }), []);
+
   // Timer Loop
   useEffect(() => {
      if (!autoAdvance) return;
@@ -824,41 +593,203 @@ export const GameWorld: React.FC<GameWorldProps> = ({ character }) => {
 
   const getChunkKey = (cx: number, cz: number) => `${cx},${cz}`;
 
+  const getGroundHeight = useCallback((x: number, z: number) => {
+    const cx = Math.round(x / CHUNK_SIZE);
+    const cz = Math.round(z / CHUNK_SIZE);
+    const chunk = chunksRef.current.get(getChunkKey(cx, cz));
+    if (chunk) return sampleChunkHeight(chunk, x - cx * CHUNK_SIZE, z - cz * CHUNK_SIZE);
+    return getTerrainHeight(seed, x, z);
+  }, [seed]);
+
+  // Surface height where a chunk has any water, else null
+  const getWaterLevel = useCallback((x: number, z: number) => {
+    const chunk = chunksRef.current.get(getChunkKey(Math.round(x / CHUNK_SIZE), Math.round(z / CHUNK_SIZE)));
+    return chunk?.hasWater ? WATER_LEVEL : null;
+  }, []);
+
+  // Collides against the chunk under the player and its neighbours
+  const resolveMovement = useCallback((x: number, z: number, feetY: number): [number, number] => {
+    const cx = Math.round(x / CHUNK_SIZE);
+    const cz = Math.round(z / CHUNK_SIZE);
+    const colliders: Collider[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const chunk = chunksRef.current.get(getChunkKey(cx + dx, cz + dz));
+        if (chunk) colliders.push(...getChunkColliders(chunk));
+      }
+    }
+    return resolveCollisions(colliders, x, z, feetY);
+  }, []);
+
+  // Strength: each strike chips at the nearest breakable object ahead
+  const handleStrike = useCallback((x: number, z: number, facing: number) => {
+    const cx = Math.round(x / CHUNK_SIZE);
+    const cz = Math.round(z / CHUNK_SIZE);
+    const nearby: ChunkData[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const chunk = chunksRef.current.get(getChunkKey(cx + dx, cz + dz));
+        if (chunk) nearby.push(chunk);
+      }
+    }
+
+    const target = findBreakTarget(nearby, x, z, facing, PLAYER_RADIUS);
+    if (!target) {
+      showMessage("Nothing to break here");
+      return;
+    }
+    const def = BREAKABLES[target.obj.type]!;
+    const label = target.obj.type === 'rock' ? 'Rock' : 'Dead bush';
+    if (abilities.strikeForce < def.minStrength) {
+      showMessage(`${label} is too heavy (needs STR ${def.minStrength})`);
+      return;
+    }
+
+    const strikes = strikesRef.current?.key === target.key ? strikesRef.current.count + 1 : 1;
+    const needed = strikesToBreak(target.obj, abilities.strikeForce);
+    if (strikes < needed) {
+      strikesRef.current = { key: target.key, count: strikes };
+      showMessage(`${label} cracking (${strikes}/${needed})`);
+      return;
+    }
+
+    strikesRef.current = null;
+    const { chunk } = target;
+    const broken = brokenRef.current.get(chunk.id) ?? new Set<string>();
+    broken.add(objectKey(target.obj));
+    brokenRef.current.set(chunk.id, broken);
+    chunksRef.current.set(chunk.id, withoutBroken(chunk, broken));
+    setChunkVersion(v => v + 1);
+    showMessage(`${label} smashed!`);
+  }, [abilities, showMessage]);
+
   const handleTeleport = (x: number, z: number) => {
-    setPlayerPosition([x, 0, z]);
+    const y = getGroundHeight(x, z);
+    setPlayerPosition([x, y, z]);
     if (controlsRef.current) {
-        controlsRef.current.target.set(x, 2, z);
+        controlsRef.current.target.set(x, y + 2, z);
         controlsRef.current.update();
     }
   };
 
+  // Chunk under the player; chunks are centred on cx * CHUNK_SIZE
+  const centerCx = Math.round(playerPosition[0] / CHUNK_SIZE);
+  const centerCz = Math.round(playerPosition[2] / CHUNK_SIZE);
+
+  const evictChunks = () => {
+    const { cx, cz, active } = viewRef.current;
+    const evicted = selectEvictions(chunksRef.current, lastUsedRef.current, { cx, cz }, chunkBudgetRef.current, active);
+    evicted.forEach(key => {
+      chunksRef.current.delete(key);
+      lastUsedRef.current.delete(key);
+    });
+  };
+
+  // Generated chunks stream in from the worker pool. They are buffered and
+  // committed at most once per animation frame, so a burst of arrivals costs one render.
+  const chunkLoaderRef = useRef<ChunkLoader | null>(null);
   useEffect(() => {
-    const cx = Math.floor(playerPosition[0] / CHUNK_SIZE);
-    const cz = Math.floor(playerPosition[2] / CHUNK_SIZE);
+    const pending: ChunkData[] = [];
+    let frame = 0;
+    const flush = () => {
+      frame = 0;
+      pending.splice(0).forEach(chunk => {
+        chunksRef.current.set(chunk.id, withoutBroken(chunk, brokenRef.current.get(chunk.id)));
+        exploredRef.current.set(chunk.id, summarizeChunk(chunk));
+      });
+      evictChunks();
+      setChunkVersion(v => v + 1);
+    };
+    const loader = createChunkLoader(seed, (chunk) => {
+      pending.push(chunk);
+      if (!frame) frame = requestAnimationFrame(flush);
+    });
+    chunkLoaderRef.current = loader;
+    return () => {
+      cancelAnimationFrame(frame);
+      loader.dispose();
+      chunkLoaderRef.current = null;
+    };
+  }, [seed]);
 
+  useEffect(() => {
     const newActiveKeys: string[] = [];
-    const newChunks = new Map(chunks);
-    let changed = false;
+    const missing: ChunkCoord[] = [];
 
-    const radius = 2;
+    const radius = viewDistance;
     for (let x = -radius; x <= radius; x++) {
       for (let z = -radius; z <= radius; z++) {
-        const key = getChunkKey(cx + x, cz + z);
+        const key = getChunkKey(centerCx + x, centerCz + z);
         newActiveKeys.push(key);
-
-        if (!newChunks.has(key)) {
-          const chunkData = generateChunkData(cx + x, cz + z);
-          newChunks.set(key, chunkData);
-          changed = true;
-        }
+        if (!chunksRef.current.has(key)) missing.push({ cx: centerCx + x, cz: centerCz + z });
       }
     }
 
-    if (changed) {
-      setChunks(newChunks);
-    }
+    const now = performance.now();
+    newActiveKeys.forEach(key => lastUsedRef.current.set(key, now));
+    viewRef.current = { cx: centerCx, cz: centerCz, active: new Set(newActiveKeys) };
+
+    chunkLoaderRef.current?.request(missing, { cx: centerCx, cz: centerCz });
     setActiveChunkKeys(newActiveKeys);
-  }, [playerPosition[0], playerPosition[2]]); 
+  }, [centerCx, centerCz, seed, viewDistance]);
+
+  const getSession = (): GameSession => ({
+    version: SAVE_VERSION,
+    character,
+    seed,
+    world: {
+      position: playerPosition, time, season, weather, viewDistance,
+      broken: Object.fromEntries(Array.from(brokenRef.current, ([id, keys]) => [id, Array.from(keys)])),
+    },
+  });
+
+  // Photo mode pauses the clock and switches to the free-fly camera; both come back on exit
+  const enterPhotoMode = () => {
+    photoRestoreRef.current = { autoAdvance, cameraMode };
+    setAutoAdvance(false);
+    setCameraMode('freeFly');
+    setPhotoMode(true);
+  };
+
+  const exitPhotoMode = useCallback(() => {
+    const restore = photoRestoreRef.current;
+    if (restore) {
+      setAutoAdvance(restore.autoAdvance);
+      setCameraMode(restore.cameraMode);
+    }
+    photoRestoreRef.current = null;
+    setPhotoMode(false);
+  }, []);
+
+  const handlePhotoCapture = async (scale: number) => {
+    if (!captureRef.current) throw new Error("Renderer not ready");
+    const capture = await captureRef.current(scale);
+    const coords = (p: number[]) => p.map(v => v.toFixed(1)).join(', ');
+    await savePhoto(capture, {
+      Title: `${character.name} - Infinite Sketch World`,
+      Software: 'Infinite Sketch World',
+      'Creation Time': new Date().toISOString(),
+      Seed: String(seed),
+      Coordinates: coords(playerPosition),
+      Camera: coords(capture.cameraPosition),
+      Time: formatTime(time),
+      Season: season,
+      Weather: weather,
+    }, `${character.name}-${seed}-${playerPosition[0].toFixed(0)}_${playerPosition[2].toFixed(0)}`);
+    return capture;
+  };
+
+  const handleDownloadModel = async () => {
+    setExportingModel(true);
+    try {
+      await downloadCharacterGLB(character);
+    } catch (err) {
+      console.error("Model export failed:", err);
+      showMessage(`Model export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExportingModel(false);
+    }
+  };
 
   // Format Time for UI
   const formatTime = (t: number) => {
@@ -881,27 +812,44 @@ export const GameWorld: React.FC<GameWorldProps> = ({ character }) => {
   return (
     <div className="w-full h-full relative bg-black">
       <Canvas shadows dpr={[1, 2]} camera={{ position: [0, 8, 12], fov: 50 }}>
-        <EnvironmentController time={time} season={season} weather={weather} />
+        <EnvironmentController time={time} season={season} weather={weather} viewDistance={viewDistance} focus={playerPosition} />
         
         <Player 
           textureUrl={character.imageData} 
+          skinFormat={character.skinFormat}
           position={playerPosition} 
           setGlobalPos={setPlayerPosition}
           controlsRef={controlsRef}
+          getGroundHeight={getGroundHeight}
+          getWaterLevel={getWaterLevel}
+          resolveMovement={resolveMovement}
+          abilities={abilities}
+          vitalsRef={vitalsRef}
+          onStrike={handleStrike}
+          onMessage={showMessage}
+          input={input}
+          cameraMode={cameraMode}
+          cameraSettings={cameraSettings}
+          onCycleCamera={cycleCameraMode}
         />
 
+        {photoMode && <PhotoRenderer settings={photoSettings} heroPosition={playerPosition} captureRef={captureRef} />}
+
         <OrbitControls 
             ref={controlsRef} 
             enablePan={false}
             minDistance={5}
             maxDistance={40}
             maxPolarAngle={Math.PI / 2 - 0.05} 
+            enabled={cameraMode === 'orbit'}
+            rotateSpeed={cameraSettings.orbit.sensitivity}
         />
 
         {activeChunkKeys.map(key => {
           const chunk = chunks.get(key);
           if (!chunk) return null;
           const [cx, cz] = key.split(',').map(Number);
+          const ring = Math.max(Math.abs(cx - centerCx), Math.abs(cz - centerCz));
           return (
             <Chunk 
                 key={key} 
@@ -910,136 +858,262 @@ export const GameWorld: React.FC<GameWorldProps> = ({ character }) => {
                 season={season} 
                 isNight={isNight}
                 weather={weather}
+                tier={getLodTier(ring)}
+                glowBoost={vitals.orbTimeLeft > 0 && ring <= 1 ? abilities.crystalGlow : 1}
             />
           );
         })}
         
-        <fog attach="fog" args={[season === 'Winter' ? '#e0fbfc' : weather === 'Rain' ? '#1e293b' : '#0f172a', 10, 70]} />
+        <fog attach="fog" args={[season === 'Winter' ? '#e0fbfc' : weather === 'Rain' ? '#1e293b' : '#0f172a', ...getFogRange(viewDistance)]} />
       </Canvas>
 
-      {/* --- Central Control Dashboard --- */}
-      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2 w-full max-w-lg pointer-events-none">
-          <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 p-4 rounded-2xl text-white shadow-2xl flex flex-col gap-3 pointer-events-auto w-full max-w-md">
-              
-              {/* Top Row: Time Display + Season + Weather */}
-              <div className="flex items-center justify-between w-full">
-                  <div className="flex items-center gap-3">
-                     <div className="p-2 bg-slate-800 rounded-lg border border-slate-700">
-                        <Clock size={20} className="text-cyan-400" />
-                     </div>
-                     <div className="flex flex-col">
-                        <span className="text-2xl font-bold font-mono leading-none">{formatTime(time)}</span>
-                        <span className="text-[10px] uppercase tracking-widest text-slate-400 font-bold">Day {Math.floor(time/24) + 1}</span>
-                     </div>
-                  </div>
+      {touchEnabled && <TouchControls input={input} />}
 
-                  <div className="h-8 w-px bg-slate-700 mx-2"></div>
+      {!photoMode && (
+        <>
+          {/* --- Central Control Dashboard --- */}
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2 w-full max-w-lg pointer-events-none">
+              <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 p-4 rounded-2xl text-white shadow-2xl flex flex-col gap-3 pointer-events-auto w-full max-w-md">
+                  
+                  {/* Top Row: Time Display + Season + Weather */}
+                  <div className="flex items-center justify-between w-full">
+                      <div className="flex items-center gap-3">
+                         <div className="p-2 bg-slate-800 rounded-lg border border-slate-700">
+                            <Clock size={20} className="text-cyan-400" />
+                         </div>
+                         <div className="flex flex-col">
+                            <span className="text-2xl font-bold font-mono leading-none">{formatTime(time)}</span>
+                            <span className="text-[10px] uppercase tracking-widest text-slate-400 font-bold">Day {Math.floor(time/24) + 1}</span>
+                         </div>
+                      </div>
 
-                  <div className="flex gap-2">
-                      <button 
-                        onClick={() => {
-                            const seasons: Season[] = ['Spring', 'Summer', 'Autumn', 'Winter'];
-                            const idx = seasons.indexOf(season);
-                            setSeason(seasons[(idx + 1) % 4]);
-                        }}
-                        className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md transition border border-slate-700"
-                        title="Change Season"
-                      >
-                          {getSeasonIcon()}
-                          <span className="text-xs font-bold">{season}</span>
-                      </button>
+                      <div className="h-8 w-px bg-slate-700 mx-2"></div>
 
-                      <div className="flex bg-slate-800 rounded-md p-1 border border-slate-700">
+                      <div className="flex gap-2">
                           <button 
-                             onClick={() => setWeather('Clear')}
-                             className={`p-1 rounded ${weather === 'Clear' ? 'bg-yellow-500 text-white' : 'text-slate-400 hover:text-white'}`}
-                             title="Clear"
-                          ><Sun size={14}/></button>
-                          <button 
-                             onClick={() => setWeather('Rain')}
-                             className={`p-1 rounded ${weather === 'Rain' ? 'bg-blue-500 text-white' : 'text-slate-400 hover:text-white'}`}
-                             title="Rain"
-                          ><CloudRain size={14}/></button>
-                          <button 
-                             onClick={() => setWeather('Snow')}
-                             className={`p-1 rounded ${weather === 'Snow' ? 'bg-white text-slate-900' : 'text-slate-400 hover:text-white'}`}
-                             title="Snow"
-                          ><Snowflake size={14}/></button>
+                            onClick={() => {
+                                const seasons: Season[] = ['Spring', 'Summer', 'Autumn', 'Winter'];
+                                const idx = seasons.indexOf(season);
+                                setSeason(seasons[(idx + 1) % 4]);
+                            }}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md transition border border-slate-700"
+                            title="Change Season"
+                          >
+                              {getSeasonIcon()}
+                              <span className="text-xs font-bold">{season}</span>
+                          </button>
+
+                          <div className="flex bg-slate-800 rounded-md p-1 border border-slate-700">
+                              <button 
+                                 onClick={() => setWeather('Clear')}
+                                 className={`p-1 rounded ${weather === 'Clear' ? 'bg-yellow-500 text-white' : 'text-slate-400 hover:text-white'}`}
+                                 title="Clear"
+                              ><Sun size={14}/></button>
+                              <button 
+                                 onClick={() => setWeather('Rain')}
+                                 className={`p-1 rounded ${weather === 'Rain' ? 'bg-blue-500 text-white' : 'text-slate-400 hover:text-white'}`}
+                                 title="Rain"
+                              ><CloudRain size={14}/></button>
+                              <button 
+                                 onClick={() => setWeather('Snow')}
+                                 className={`p-1 rounded ${weather === 'Snow' ? 'bg-white text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                                 title="Snow"
+                              ><Snowflake size={14}/></button>
+                          </div>
                       </div>
                   </div>
-              </div>
-              
-              {/* Middle Row: Time Scrubber */}
-              <div className="w-full flex items-center gap-2">
-                  <Sun size={12} className="text-yellow-500" />
-                  <input 
-                    type="range" 
-                    min="0" max="24" step="0.1"
-                    value={time}
-                    onChange={(e) => setTime(parseFloat(e.target.value))}
-                    className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
-                  />
-                  <Moon size={12} className="text-blue-300" />
-              </div>
-
-              {/* Bottom Row: Speed Control & Pause */}
-              <div className="flex items-center justify-between text-xs text-slate-400">
-                  <div className="flex items-center gap-2">
-                      <Zap size={12} />
-                      <span>Time Speed: {timeSpeed.toFixed(1)}x</span>
+                  
+                  {/* Middle Row: Time Scrubber */}
+                  <div className="w-full flex items-center gap-2">
+                      <Sun size={12} className="text-yellow-500" />
                       <input 
                         type="range" 
-                        min="0" max="5" step="0.5"
-                        value={timeSpeed}
-                        onChange={(e) => setTimeSpeed(parseFloat(e.target.value))}
-                        className="w-20 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                        min="0" max="24" step="0.1"
+                        value={time}
+                        onChange={(e) => setTime(parseFloat(e.target.value))}
+                        className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                       />
+                      <Moon size={12} className="text-blue-300" />
                   </div>
-                  
-                  <button 
-                    onClick={() => setAutoAdvance(!autoAdvance)}
-                    className={`flex items-center gap-1 px-2 py-1 rounded border ${
-                        autoAdvance 
-                        ? 'bg-green-500/10 border-green-500/50 text-green-400' 
-                        : 'bg-red-500/10 border-red-500/50 text-red-400'
-                    }`}
-                  >
-                      {autoAdvance ? <Pause size={10} /> : <Play size={10} />}
-                      {autoAdvance ? 'RUNNING' : 'PAUSED'}
-                  </button>
-              </div>
 
+                  {/* Bottom Row: Speed Control & Pause */}
+                  <div className="flex items-center justify-between text-xs text-slate-400">
+                      <div className="flex items-center gap-2">
+                          <Zap size={12} />
+                          <span>Time Speed: {timeSpeed.toFixed(1)}x</span>
+                          <input 
+                            type="range" 
+                            min="0" max="5" step="0.5"
+                            value={timeSpeed}
+                            onChange={(e) => setTimeSpeed(parseFloat(e.target.value))}
+                            className="w-20 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                          />
+                      </div>
+                      
+                      <div className="flex items-center gap-1" title="Render Distance (chunks)">
+                          <Eye size={12} />
+                          <select
+                            value={viewDistance}
+                            onChange={(e) => setViewDistance(parseInt(e.target.value))}
+                            className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+                          >
+                            {VIEW_DISTANCES.map(d => <option key={d} value={d}>{d}</option>)}
+                          </select>
+                      </div>
+
+                      <button 
+                        onClick={() => setAutoAdvance(!autoAdvance)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border ${
+                            autoAdvance 
+                            ? 'bg-green-500/10 border-green-500/50 text-green-400' 
+                            : 'bg-red-500/10 border-red-500/50 text-red-400'
+                        }`}
+                      >
+                          {autoAdvance ? <Pause size={10} /> : <Play size={10} />}
+                          {autoAdvance ? 'RUNNING' : 'PAUSED'}
+                      </button>
+                  </div>
+
+              </div>
           </div>
-      </div>
-
-      {/* Character Card - Left */}
-      <div className="absolute top-24 left-4 p-4 bg-slate-900/80 backdrop-blur text-white rounded-lg border border-slate-700 max-w-xs select-none shadow-lg pointer-events-none z-10 transform scale-90 origin-top-left">
-        <div className="flex items-center gap-4 mb-2">
-            <div className="w-12 h-12 bg-slate-800 rounded-lg overflow-hidden border border-cyan-500 flex items-center justify-center relative">
-                <div className="w-full h-full overflow-hidden relative">
-                     <img src={character.imageData} alt="Avatar" className="w-[200%] max-w-none h-full object-cover absolute top-0 left-0" />
+
+          {/* Character Card - Left */}
+          <div className="absolute top-24 left-4 p-4 bg-slate-900/80 backdrop-blur text-white rounded-lg border border-slate-700 max-w-xs select-none shadow-lg pointer-events-none z-10 transform scale-90 origin-top-left">
+            <div className="flex items-center gap-4 mb-2">
+                <div className="w-12 h-12 bg-slate-800 rounded-lg overflow-hidden border border-cyan-500 flex items-center justify-center relative">
+                    <div className="w-full h-full overflow-hidden relative">
+                         <SkinPortrait imageData={character.imageData} format={character.skinFormat} alt="Avatar" />
+                    </div>
+                </div>
+                <div>
+                    <h2 className="font-bold text-cyan-400">{character.name}</h2>
+                    <div className="text-xs text-slate-400">{character.description.substring(0, 30)}...</div>
+                </div>
+            </div>
+            <div className="space-y-1 text-xs font-mono text-slate-300">
+                <div className="flex justify-between items-center gap-2"><span>STR</span> <div className="w-24 h-2 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-red-500" style={{width: `${character.stats.strength * 10}%`}}></div></div></div>
+                <div className="text-[10px] text-slate-500 text-right">
+                  Strike {abilities.strikeForce} • {abilities.strikeForce >= BREAKABLES.rock!.minStrength ? 'breaks rocks' : 'bushes only'}
+                </div>
+                <div className="flex justify-between items-center gap-2"><span>SPD</span> <div className="w-24 h-2 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-green-500" style={{width: `${character.stats.speed * 10}%`}}></div></div></div>
+                <div className="text-[10px] text-slate-500 text-right">
+                  Move {Math.round(abilities.walkSpeed / BASE_WALK_SPEED * 100)}% • Sprint x{abilities.sprintMultiplier}
+                </div>
+                <div className="flex justify-between items-center gap-2"><span>MAG</span> <div className="w-24 h-2 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-purple-500" style={{width: `${character.stats.magic * 10}%`}}></div></div></div>
+                <div className="text-[10px] text-slate-500 text-right">
+                  {abilities.maxMana >= ORB_COST ? `Light orb ${abilities.orbDuration}s • ${ORB_COST} mana` : 'Too weak to cast'}
+                </div>
+            </div>
+
+            {/* Live vitals driven by the stats above */}
+            <div className="mt-3 pt-3 border-t border-slate-700 space-y-1 text-xs font-mono text-slate-300">
+                <div className="flex justify-between items-center gap-2">
+                  <span>STAMINA</span>
+                  <div className="w-24 h-2 bg-slate-700 rounded overflow-hidden">
+                    <div className={`h-full ${vitals.exhausted ? 'bg-red-500' : 'bg-yellow-400'}`} style={{width: `${(vitals.stamina / abilities.maxStamina) * 100}%`}}></div>
+                  </div>
                 </div>
+                {abilities.maxMana > 0 && (
+                  <div className="flex justify-between items-center gap-2">
+                    <span>MANA</span>
+                    <div className="w-24 h-2 bg-slate-700 rounded overflow-hidden">
+                      <div className="h-full bg-blue-500" style={{width: `${(vitals.mana / abilities.maxMana) * 100}%`}}></div>
+                    </div>
+                  </div>
+                )}
+                {vitals.orbTimeLeft > 0 && (
+                  <div className="flex items-center gap-1 text-amber-300">
+                    <Lightbulb size={12} /> Light orb {Math.ceil(vitals.orbTimeLeft)}s
+                  </div>
+                )}
             </div>
-            <div>
-                <h2 className="font-bold text-cyan-400">{character.name}</h2>
-                <div className="text-xs text-slate-400">{character.description.substring(0, 30)}...</div>
+          </div>
+
+          {actionMessage && (
+            <div key={actionMessage.id} className="absolute bottom-24 left-1/2 -translate-x-1/2 px-4 py-2 bg-slate-900/80 border border-slate-700 rounded-lg text-sm font-bold text-white pointer-events-none select-none">
+              {actionMessage.text}
             </div>
-        </div>
-        <div className="space-y-1 text-xs font-mono text-slate-300">
-            <div className="flex justify-between"><span>STR</span> <div className="w-24 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-red-500" style={{width: `${character.stats.strength * 10}%`}}></div></div></div>
-            <div className="flex justify-between"><span>SPD</span> <div className="w-24 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-green-500" style={{width: `${character.stats.speed * 10}%`}}></div></div></div>
-            <div className="flex justify-between"><span>MAG</span> <div className="w-24 bg-slate-700 rounded overflow-hidden"><div className="h-full bg-purple-500" style={{width: `${character.stats.magic * 10}%`}}></div></div></div>
-        </div>
-      </div>
-
-      <div className="absolute bottom-4 left-4 text-white/50 text-sm font-mono select-none pointer-events-none">
-        <p>Pos: {playerPosition[0].toFixed(0)}, {playerPosition[2].toFixed(0)}</p>
-        <p>WASD to Walk • Drag to Orbit</p>
-      </div>
-
-      <div className="absolute top-4 right-4 z-50">
-        <Minimap chunks={chunks} playerPos={playerPosition} onTeleport={handleTeleport} />
-      </div>
+          )}
+
+          <div className="absolute bottom-4 left-4 text-white/50 text-sm font-mono select-none pointer-events-none">
+            <p>Pos: {playerPosition[0].toFixed(0)}, {playerPosition[2].toFixed(0)}</p>
+            <p className="pointer-events-auto select-text" title="World Seed">Seed: {seed}</p>
+            {!touchEnabled && (
+              <p>
+                {(['forward', 'left', 'back', 'right'] as const).map(action => keyLabel(bindings[action][0])).join('')} to Walk
+                {' • '}{keyLabel(bindings.sprint[0])} to Sprint • {keyLabel(bindings.jump[0])} to Jump / Swim Up
+                {' • '}{keyLabel(bindings.strike[0])} to Strike • {keyLabel(bindings.cast[0])} to Cast Light • {keyLabel(bindings.camera[0])} to Switch Camera • Drag to Look
+              </p>
+            )}
+          </div>
+
+          <div className="absolute top-4 right-4 z-50 flex flex-col items-center gap-2">
+            <Minimap chunks={chunks} explored={exploredRef.current} chunkVersion={chunkVersion} playerPos={playerPosition} onTeleport={handleTeleport} />
+            <button
+              onClick={() => setShowSaveMenu(true)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 rounded-lg text-xs font-bold text-slate-300 hover:text-cyan-400 transition"
+            >
+              <Save size={14} /> SAVE / LOAD
+            </button>
+            <button
+              onClick={() => setShowControlsMenu(true)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 rounded-lg text-xs font-bold text-slate-300 hover:text-cyan-400 transition"
+            >
+              <Keyboard size={14} /> CONTROLS
+            </button>
+            <button
+              onClick={enterPhotoMode}
+              className="flex items-center gap-1 px-3 py-1.5 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 rounded-lg text-xs font-bold text-slate-300 hover:text-cyan-400 transition"
+            >
+              <Aperture size={14} /> PHOTO MODE
+            </button>
+            <CameraPanel mode={cameraMode} settings={cameraSettings} onModeChange={setCameraMode} onSettingsChange={handleCameraSettingsChange} />
+            <button
+              onClick={handleDownloadModel}
+              disabled={exportingModel}
+              className="flex items-center gap-1 px-3 py-1.5 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 rounded-lg text-xs font-bold text-slate-300 hover:text-cyan-400 transition disabled:opacity-50"
+              title="Download the character as a rigged, animated GLB"
+            >
+              <Download size={14} /> {exportingModel ? 'EXPORTING...' : 'DOWNLOAD MODEL'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {photoMode && (
+        <PhotoModePanel
+          settings={photoSettings}
+          onSettingsChange={setPhotoSettings}
+          cameraMode={cameraMode}
+          cameraSettings={cameraSettings}
+          onCameraModeChange={setCameraMode}
+          onCameraSettingsChange={handleCameraSettingsChange}
+          time={time}
+          timeLabel={formatTime(time)}
+          onTimeChange={setTime}
+          season={season}
+          onSeasonChange={setSeason}
+          weather={weather}
+          onWeatherChange={setWeather}
+          onCapture={handlePhotoCapture}
+          onExit={exitPhotoMode}
+        />
+      )}
+
+      {showSaveMenu && (
+        <SaveMenu
+          getSession={getSession}
+          onLoad={(session) => {
+            setShowSaveMenu(false);
+            onLoadSession?.(session);
+          }}
+          onClose={() => setShowSaveMenu(false)}
+        />
+      )}
+
+      {showControlsMenu && (
+        <ControlsMenu bindings={bindings} onChange={handleBindingsChange} onClose={() => setShowControlsMenu(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
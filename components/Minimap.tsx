@@ -1,21 +1,42 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Maximize2, Minimize2, Map as MapIcon, ZoomIn, ZoomOut, Locate } from 'lucide-react';
-import { ChunkData, CHUNK_SIZE } from '../utils/worldGen';
+import { Maximize2, Minimize2, Map as MapIcon, ZoomIn, ZoomOut, Locate, Mountain } from 'lucide-react';
+import { ChunkData, BiomeType, CHUNK_SIZE, TERRAIN_RESOLUTION, WATER_LEVEL } from '../utils/worldGen';
+import { ChunkSummary } from '../utils/chunkCache';
 
 interface MinimapProps {
   chunks: Map<string, ChunkData>;
+  explored: Map<string, ChunkSummary>; // Every chunk seen, including evicted ones
+  chunkVersion: number; // Bumped whenever `chunks` is mutated in place
   playerPos: [number, number, number];
   onTeleport: (x: number, z: number) => void;
 }
 
-export const Minimap: React.FC<MinimapProps> = ({ chunks, playerPos, onTeleport }) => {
+// Sub-cells drawn per chunk side when relief shading is on
+const RELIEF_CELLS = 4;
+
+// Swamps are murky, everything else open water
+const waterColor = (biome: BiomeType) => (biome === 'swamp' ? '#4d908e' : '#0096c7');
+
+// Darkens lowlands and brightens peaks; 0 height leaves the biome colour untouched
+const shadeByElevation = (hex: string, height: number) => {
+  const amount = Math.max(-0.5, Math.min(0.5, height / 24));
+  const num = parseInt(hex.slice(1), 16);
+  const channel = (c: number) => Math.round(amount >= 0 ? c + (255 - c) * amount : c * (1 + amount));
+  const r = channel((num >> 16) & 255);
+  const g = channel((num >> 8) & 255);
+  const b = channel(num & 255);
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+export const Minimap: React.FC<MinimapProps> = ({ chunks, explored, chunkVersion, playerPos, onTeleport }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [expanded, setExpanded] = useState(false);
   
   // Interactive State
   const [viewPos, setViewPos] = useState<{x:number, z:number}>({x: 0, z: 0});
   const [zoom, setZoom] = useState(1);
+  const [showRelief, setShowRelief] = useState(true);
   const [isDragging, setIsDragging] = useState(false);
   const [lastMousePos, setLastMousePos] = useState<{x:number, y:number}|null>(null);
 
@@ -58,8 +79,8 @@ export const Minimap: React.FC<MinimapProps> = ({ chunks, playerPos, onTeleport
     const currentScale = expanded ? BASE_SCALE * zoom : 8; // Pixels per world unit approx
 
     // Render Chunks
-    // We iterate all chunks. In a huge world, we might want to cull, but for now Map is fast enough.
-    chunks.forEach((chunk, key) => {
+    // We iterate every explored chunk; ones still loaded get full relief, evicted ones their summary.
+    explored.forEach((summary, key) => {
         const [chunkX, chunkZ] = key.split(',').map(Number);
         const worldX = chunkX * CHUNK_SIZE;
         const worldZ = chunkZ * CHUNK_SIZE;
@@ -94,17 +115,51 @@ export const Minimap: React.FC<MinimapProps> = ({ chunks, playerPos, onTeleport
             screenY + size < 0 || screenY - size > canvas.height) return;
 
         let color = '#444';
-        if (chunk.biomeType === 'forest') color = '#2d6a4f';
-        else if (chunk.biomeType === 'desert') color = '#e9c46a';
-        else if (chunk.biomeType === 'snow') color = '#e0fbfc';
-        else if (chunk.biomeType === 'magical') color = '#560bad';
-        else if (chunk.biomeType === 'volcanic') color = '#6a040f';
+        if (summary.biomeType === 'forest') color = '#2d6a4f';
+        else if (summary.biomeType === 'desert') color = '#e9c46a';
+        else if (summary.biomeType === 'snow') color = '#e0fbfc';
+        else if (summary.biomeType === 'magical') color = '#560bad';
+        else if (summary.biomeType === 'volcanic') color = '#6a040f';
         
-        ctx.fillStyle = color;
         // Draw rect centered? No, chunk position is likely corner or center. 
         // Based on GameWorld: position is cx*SIZE. Objects are +/- relative.
         // So (cx*SIZE, cz*SIZE) is the center of the chunk in world space.
-        ctx.fillRect(screenX - size/2, screenY - size/2, size - 1, size - 1); // -1 for grid effect
+        // Evicted or unshaded chunks show as water when mostly flooded
+        const flooded = summary.water > 0.5;
+        if (!showRelief) {
+            ctx.fillStyle = flooded ? waterColor(summary.biomeType) : color;
+            ctx.fillRect(screenX - size/2, screenY - size/2, size - 1, size - 1); // -1 for grid effect
+            return;
+        }
+
+        const chunk = chunks.get(key);
+        if (!chunk) {
+            ctx.fillStyle = flooded ? waterColor(summary.biomeType) : shadeByElevation(color, summary.elevation);
+            ctx.fillRect(screenX - size/2, screenY - size/2, size - 1, size - 1);
+            return;
+        }
+
+        // Relief: split the chunk into cells shaded by the heightmap sample at each cell centre.
+        // A cell with any sample under water is drawn as water, so narrow rivers still show.
+        const cell = size / RELIEF_CELLS;
+        const stride = TERRAIN_RESOLUTION / RELIEF_CELLS;
+        for (let iz = 0; iz < RELIEF_CELLS; iz++) {
+            for (let ix = 0; ix < RELIEF_CELLS; ix++) {
+                const sx = Math.round((ix + 0.5) * stride);
+                const sz = Math.round((iz + 0.5) * stride);
+                const height = chunk.heights[sz * (TERRAIN_RESOLUTION + 1) + sx];
+                let lowest = Infinity;
+                for (let gz = iz * stride; gz <= (iz + 1) * stride; gz++) {
+                    for (let gx = ix * stride; gx <= (ix + 1) * stride; gx++) {
+                        lowest = Math.min(lowest, chunk.heights[gz * (TERRAIN_RESOLUTION + 1) + gx]);
+                    }
+                }
+                ctx.fillStyle = lowest < WATER_LEVEL
+                    ? shadeByElevation(waterColor(chunk.biomeType), Math.min(0, lowest - WATER_LEVEL) * 4)
+                    : shadeByElevation(color, height);
+                ctx.fillRect(screenX - size/2 + ix * cell, screenY - size/2 + iz * cell, Math.ceil(cell), Math.ceil(cell));
+            }
+        }
     });
 
     // Draw Player Arrow/Dot
@@ -133,7 +188,7 @@ export const Minimap: React.FC<MinimapProps> = ({ chunks, playerPos, onTeleport
 
   useEffect(() => {
       renderMap();
-  });
+  }, [chunks, explored, chunkVersion, playerPos, viewPos, zoom, expanded, showRelief]);
 
   // --- Interaction Handlers ---
 
@@ -219,6 +274,7 @@ export const Minimap: React.FC<MinimapProps> = ({ chunks, playerPos, onTeleport
                         <button onClick={() => setZoom(z => Math.min(z + 0.2, 5))} className="p-2 hover:bg-slate-700 rounded text-white"><ZoomIn size={18} /></button>
                         <button onClick={() => setZoom(z => Math.max(z - 0.2, 0.5))} className="p-2 hover:bg-slate-700 rounded text-white"><ZoomOut size={18} /></button>
                         <button onClick={resetView} className="p-2 hover:bg-slate-700 rounded text-cyan-400" title="Center on Player"><Locate size={18} /></button>
+                        <button onClick={() => setShowRelief(r => !r)} className={`p-2 hover:bg-slate-700 rounded ${showRelief ? 'text-cyan-400' : 'text-white'}`} title="Toggle Elevation Shading"><Mountain size={18} /></button>
                     </div>
                 </div>
 
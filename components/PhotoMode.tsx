@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Aperture, CloudRain, ImageDown, Snowflake, Sun, X } from 'lucide-react';
+import { CameraPanel } from './CameraPanel';
+import { Season, Weather } from './seasons';
+import { CameraMode, CameraSettings } from '../utils/cameraModes';
+import { embedPngText } from '../utils/pngMetadata';
+import { downloadBlob } from '../utils/download';
+
+// --- Photo Mode ---
+// A paused, UI-free view of the world: depth of field rendered through a
+// bokeh pass, and PNG captures at a multiple of the canvas resolution.
+
+export interface PhotoSettings {
+  dof: boolean;
+  focusOnHero: boolean;  // Otherwise focusDistance
+  focusDistance: number; // World units from the camera
+  blur: number;          // 1-10
+  scale: number;         // Export resolution multiplier
+}
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = {
+  dof: false,
+  focusOnHero: true,
+  focusDistance: 10,
+  blur: 4,
+  scale: 2,
+};
+
+const EXPORT_SCALES = [1, 2, 3, 4];
+const APERTURE_PER_BLUR = 0.0003;
+const MAX_BLUR = 0.012;
+const HERO_FOCUS_HEIGHT = 1; // Focus on the torso rather than the feet
+
+export interface PhotoCapture {
+  blob: Blob;
+  width: number;
+  height: number;
+  cameraPosition: [number, number, number];
+}
+
+export type PhotoCaptureFn = (scale: number) => Promise<PhotoCapture>;
+
+// Lives inside the Canvas. Takes over rendering while depth of field is on,
+// and publishes the capture function through captureRef.
+export const PhotoRenderer: React.FC<{
+  settings: PhotoSettings;
+  heroPosition: [number, number, number];
+  captureRef: React.MutableRefObject<PhotoCaptureFn | null>;
+}> = ({ settings, heroPosition, captureRef }) => {
+  const { gl, scene, camera, size } = useThree();
+
+  const { composer, bokeh } = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const bokeh = new BokehPass(scene, camera, { focus: 10, aperture: 0, maxblur: MAX_BLUR });
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(bokeh);
+    composer.addPass(new OutputPass());
+    return { composer, bokeh };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => composer.dispose(), [composer]);
+
+  useEffect(() => {
+    composer.setPixelRatio(gl.getPixelRatio());
+    composer.setSize(size.width, size.height);
+  }, [composer, gl, size]);
+
+  const uniforms = bokeh.uniforms as Record<string, THREE.IUniform<number>>;
+  const render = () => {
+    if (!settings.dof) {
+      gl.render(scene, camera);
+      return;
+    }
+    uniforms.focus.value = settings.focusOnHero
+      ? camera.position.distanceTo(new THREE.Vector3(heroPosition[0], heroPosition[1] + HERO_FOCUS_HEIGHT, heroPosition[2]))
+      : settings.focusDistance;
+    uniforms.aperture.value = settings.blur * APERTURE_PER_BLUR;
+    composer.render();
+  };
+
+  // A positive priority replaces R3F's own render, which cannot do the bokeh pass
+  useFrame(() => {
+    if (settings.dof) render();
+  }, settings.dof ? 1 : 0);
+
+  useEffect(() => {
+    captureRef.current = (scale) => {
+      const pixelRatio = gl.getPixelRatio();
+      // Stay within what the GPU can allocate for the drawing buffer
+      const limit = Math.min(gl.capabilities.maxTextureSize, 8192);
+      const factor = Math.max(1, Math.min(scale, limit / (Math.max(size.width, size.height) * pixelRatio)));
+
+      gl.setPixelRatio(pixelRatio * factor);
+      composer.setPixelRatio(pixelRatio * factor);
+      composer.setSize(size.width, size.height);
+      render();
+      const canvas = gl.domElement;
+      const width = canvas.width;
+      const height = canvas.height;
+      // toBlob snapshots the drawing buffer synchronously, so restoring right after is safe
+      const pending = new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      gl.setPixelRatio(pixelRatio);
+      composer.setPixelRatio(pixelRatio);
+      composer.setSize(size.width, size.height);
+
+      return pending.then(blob => {
+        if (!blob) throw new Error("The browser could not encode the image");
+        return { blob, width, height, cameraPosition: camera.position.toArray() as [number, number, number] };
+      });
+    };
+    return () => { captureRef.current = null; };
+  });
+
+  return null;
+};
+
+export const savePhoto = async (capture: PhotoCapture, metadata: Record<string, string>, name: string) => {
+  const png = await embedPngText(capture.blob, metadata);
+  downloadBlob(png, `${name.replace(/[^\w-]+/g, '_') || 'photo'}.png`);
+};
+
+interface PhotoModePanelProps {
+  settings: PhotoSettings;
+  onSettingsChange: (settings: PhotoSettings) => void;
+  cameraMode: CameraMode;
+  cameraSettings: CameraSettings;
+  onCameraModeChange: (mode: CameraMode) => void;
+  onCameraSettingsChange: (settings: CameraSettings) => void;
+  time: number;
+  timeLabel: string;
+  onTimeChange: (time: number) => void;
+  season: Season;
+  onSeasonChange: (season: Season) => void;
+  weather: Weather;
+  onWeatherChange: (weather: Weather) => void;
+  onCapture: (scale: number) => Promise<PhotoCapture>;
+  onExit: () => void;
+}
+
+const SEASONS: Season[] = ['Spring', 'Summer', 'Autumn', 'Winter'];
+const WEATHERS: { weather: Weather; icon: React.ReactNode }[] = [
+  { weather: 'Clear', icon: <Sun size={14} /> },
+  { weather: 'Rain', icon: <CloudRain size={14} /> },
+  { weather: 'Snow', icon: <Snowflake size={14} /> },
+];
+
+const Slider: React.FC<{ label: string; min: number; max: number; step: number; value: number; display: string; onChange: (value: number) => void }> = ({ label, min, max, step, value, display, onChange }) => (
+  <label className="flex items-center gap-2 text-xs">
+    <span className="w-16 text-slate-400">{label}</span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-1 accent-cyan-500" />
+    <span className="w-10 text-right font-mono">{display}</span>
+  </label>
+);
+
+export const PhotoModePanel: React.FC<PhotoModePanelProps> = (props) => {
+  const { settings, onSettingsChange, time, season, weather, onCapture, onExit } = props;
+  const [status, setStatus] = useState<string | null>(null);
+  const [capturing, setCapturing] = useState(false);
+
+  const update = (patch: Partial<PhotoSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.code === 'Escape') onExit(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onExit]);
+
+  const handleCapture = async () => {
+    setCapturing(true);
+    setStatus(null);
+    try {
+      const { width, height } = await onCapture(settings.scale);
+      setStatus(`Saved ${width} × ${height} PNG`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Capture failed');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const section = "space-y-2 pt-3 border-t border-slate-700";
+  const chip = (active: boolean) => `flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs font-bold transition ${active ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 z-50 w-72 overflow-y-auto bg-slate-900/85 backdrop-blur border border-slate-700 rounded-2xl shadow-2xl p-4 text-white space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-bold flex items-center gap-2"><Aperture size={16} className="text-cyan-400" /> PHOTO MODE</h2>
+        <button onClick={onExit} className="p-1.5 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white" title="Exit (Esc)"><X size={16} /></button>
+      </div>
+
+      <CameraPanel mode={props.cameraMode} settings={props.cameraSettings} onModeChange={props.onCameraModeChange} onSettingsChange={props.onCameraSettingsChange} />
+
+      <div className={section}>
+        <Slider label="Time" min={0} max={24} step={0.1} value={time} display={props.timeLabel} onChange={props.onTimeChange} />
+        <div className="flex gap-1">
+          {WEATHERS.map(entry => (
+            <button key={entry.weather} onClick={() => props.onWeatherChange(entry.weather)} className={chip(weather === entry.weather)} title={entry.weather}>
+              {entry.icon}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {SEASONS.map(s => (
+            <button key={s} onClick={() => props.onSeasonChange(s)} className={chip(season === s)}>{s}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className={section}>
+        <label className="flex items-center gap-2 text-xs font-bold">
+          <input type="checkbox" checked={settings.dof} onChange={(e) => update({ dof: e.target.checked })} className="accent-cyan-500" />
+          Depth of Field
+        </label>
+        {settings.dof && (
+          <>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={settings.focusOnHero} onChange={(e) => update({ focusOnHero: e.target.checked })} className="accent-cyan-500" />
+              Focus on hero
+            </label>
+            {!settings.focusOnHero && (
+              <Slider label="Focus" min={1} max={80} step={0.5} value={settings.focusDistance} display={`${settings.focusDistance}m`} onChange={(focusDistance) => update({ focusDistance })} />
+            )}
+            <Slider label="Blur" min={1} max={10} step={1} value={settings.blur} display={String(settings.blur)} onChange={(blur) => update({ blur })} />
+          </>
+        )}
+      </div>
+
+      <div className={section}>
+        <div className="flex gap-1">
+          {EXPORT_SCALES.map(scale => (
+            <button key={scale} onClick={() => update({ scale })} className={chip(settings.scale === scale)}>{scale}×</button>
+          ))}
+        </div>
+        <button
+          onClick={handleCapture}
+          disabled={capturing}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-sm font-bold transition disabled:opacity-50"
+        >
+          <ImageDown size={16} /> {capturing ? 'Capturing...' : 'Capture PNG'}
+        </button>
+        {status && <div className="text-[11px] text-slate-400 text-center">{status}</div>}
+      </div>
+    </div>
+  );
+};
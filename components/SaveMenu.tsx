@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Save, FolderOpen, Trash2, Download, Upload, X } from 'lucide-react';
+import { GameSession, SaveSlot, listSaves, writeSave, deleteSave, exportSession, importSessionFile } from '../utils/saveGame';
+import { SkinPortrait } from './SkinPortrait';
+
+interface SaveMenuProps {
+  // When provided, the menu can save; without it (e.g. from the creator) it is load-only
+  getSession?: () => GameSession;
+  onLoad: (session: GameSession) => void;
+  onClose: () => void;
+}
+
+export const SaveMenu: React.FC<SaveMenuProps> = ({ getSession, onLoad, onClose }) => {
+  const [slots, setSlots] = useState<SaveSlot[]>([]);
+  const [slotName, setSlotName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setSlots(await listSaves());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read saves');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async (name: string) => {
+    if (!getSession || !name.trim()) return;
+    try {
+      await writeSave(name.trim(), getSession());
+      setSlotName("");
+      setError(null);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await deleteSave(name);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onLoad(await importSessionFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="relative w-full max-w-lg bg-slate-800/95 border border-slate-700 rounded-2xl shadow-2xl p-6 text-white space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <FolderOpen size={20} className="text-cyan-400" /> {getSession ? 'Save / Load' : 'Load Game'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {getSession && (
+          <div className="flex gap-2">
+            <input
+              value={slotName}
+              onChange={(e) => setSlotName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(slotName); }}
+              placeholder="New save name..."
+              className="flex-1 bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-cyan-500"
+            />
+            <button
+              onClick={() => handleSave(slotName)}
+              disabled={!slotName.trim()}
+              className={`flex items-center gap-2 px-3 py-2 bg-cyan-600 rounded-lg text-sm font-bold transition ${!slotName.trim() ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-500'}`}
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {slots.length === 0 && (
+            <div className="text-center text-sm text-slate-500 py-6">No saved games yet.</div>
+          )}
+          {slots.map(slot => (
+            <div key={slot.name} className="flex items-center gap-3 bg-slate-900/60 border border-slate-700 rounded-lg p-2">
+              <div className="w-10 h-10 rounded overflow-hidden bg-white flex-shrink-0 relative">
+                <SkinPortrait imageData={slot.session.character.imageData} format={slot.session.character.skinFormat} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold text-sm truncate">{slot.name}</div>
+                <div className="text-[10px] text-slate-400 truncate">
+                  {slot.session.character.name} • Seed {slot.session.seed} • {new Date(slot.savedAt).toLocaleString()}
+                </div>
+              </div>
+              {getSession && (
+                <button onClick={() => handleSave(slot.name)} className="p-2 hover:bg-slate-700 rounded text-slate-300" title="Overwrite"><Save size={16} /></button>
+              )}
+              <button onClick={() => onLoad(slot.session)} className="p-2 hover:bg-slate-700 rounded text-cyan-400" title="Load"><FolderOpen size={16} /></button>
+              <button onClick={() => exportSession(slot.session, slot.name)} className="p-2 hover:bg-slate-700 rounded text-slate-300" title="Export JSON"><Download size={16} /></button>
+              <button onClick={() => handleDelete(slot.name)} className="p-2 hover:bg-red-500/30 rounded text-red-400" title="Delete"><Trash2 size={16} /></button>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        <div className="flex gap-2 pt-2 border-t border-slate-700">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm"
+          >
+            <Upload size={16} /> Import File
+          </button>
+          {getSession && (
+            <button
+              onClick={() => {
+                const session = getSession();
+                exportSession(session, `${session.character.name}-session`);
+              }}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm"
+            >
+              <Download size={16} /> Export Current
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+    </div>
+  );
+};
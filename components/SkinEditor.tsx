@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Pen, Eraser, Pipette, Undo2, RotateCcw, Check, Grid3x3, FlipHorizontal, ArrowLeftRight, Copy, Palette } from 'lucide-react';
+import { CharacterData } from '../App';
+import { BlockyCharacter } from './BlockyCharacter';
+import { MirrorRegion, SkinFormat, SkinPart, UVMap, getFrontToBackRegions, getMirrorRegions, getSkinUVs, mirrorRect } from './skinFormats';
+
+interface SkinEditorProps {
+  character: CharacterData;
+  onSave: (imageData: string) => void;
+  onSkip: () => void;
+}
+
+type Tool = 'pen' | 'eraser' | 'picker';
+
+// Painting snaps to a grid x grid lattice: GRID cells, or one per texel for small skins
+const GRID = 128;
+const MAX_UNDO = 20;
+const DEFAULT_SIZE = 512;
+
+const SWATCHES = ['#ffffff', '#000000', '#ef4444', '#22c55e', '#3b82f6', '#eab308', '#a855f7', '#f1c27d', '#7f5539'];
+
+// Overlay colour per rig part family
+const PART_COLORS: Record<SkinPart, string> = {
+  head: '#22d3ee',
+  torso: '#a855f7',
+  upperArmR: '#f59e0b', lowerArmR: '#fbbf24',
+  upperArmL: '#f59e0b', lowerArmL: '#fbbf24',
+  upperLegR: '#22c55e', lowerLegR: '#4ade80',
+  upperLegL: '#22c55e', lowerLegL: '#4ade80',
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+const Turntable: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((_, delta) => {
+    if (ref.current) ref.current.rotation.y += delta * 0.6;
+  });
+  return <group ref={ref}>{children}</group>;
+};
+
+// Face rectangles of every rig box, drawn over the texture in image space (0-100).
+// Split skins only have distinct front/back regions; sheet and classic skins have all six.
+const UVOverlay: React.FC<{ format?: SkinFormat }> = ({ format }) => {
+  const skinUVs = getSkinUVs(format);
+  const faces = format && format !== 'split'
+    ? (['front', 'back', 'left', 'right', 'top', 'bottom'] as const)
+    : (['front', 'back'] as const);
+  return (
+    <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+      {(Object.keys(skinUVs) as SkinPart[]).map(part => {
+        const uvs = skinUVs[part];
+        return faces.map(face => {
+          const map = uvs[face] ?? uvs.side;
+          const x = map.uMin * 100;
+          const y = (1 - map.vMax) * 100;
+          return (
+            <g key={`${part}-${face}`}>
+              <rect
+                x={x} y={y}
+                width={(map.uMax - map.uMin) * 100} height={(map.vMax - map.vMin) * 100}
+                fill="none" stroke={PART_COLORS[part]} strokeWidth={0.4} strokeDasharray="1.5 1"
+              />
+              <text x={x + 0.6} y={y + 2.4} fontSize={2} fill={PART_COLORS[part]} style={{ fontFamily: 'monospace' }}>
+                {face === 'front' ? part : face === 'back' ? `${part} (B)` : ''}
+              </text>
+            </g>
+          );
+        });
+      })}
+    </svg>
+  );
+};
+
+export const SkinEditor: React.FC<SkinEditorProps> = ({ character, onSave, onSkip }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalRef = useRef<HTMLImageElement | null>(null);
+  const historyRef = useRef<ImageData[]>([]);
+  const lastCellRef = useRef<[number, number] | null>(null);
+
+  const [ready, setReady] = useState(false);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState('#ffffff');
+  const [brushSize, setBrushSize] = useState(2); // In grid cells
+  const [mirrorLR, setMirrorLR] = useState(false);
+  const [mirrorFB, setMirrorFB] = useState(false);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [previewUrl, setPreviewUrl] = useState(character.imageData);
+  const [canUndo, setCanUndo] = useState(false);
+  const [grid, setGrid] = useState(GRID);
+  const format = character.skinFormat;
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!canvas || !ctx) return;
+      canvas.width = img.naturalWidth || DEFAULT_SIZE;
+      canvas.height = img.naturalHeight || DEFAULT_SIZE;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      setGrid(Math.min(GRID, canvas.width));
+      originalRef.current = img;
+      historyRef.current = [];
+      setCanUndo(false);
+      setReady(true);
+    };
+    img.src = character.imageData;
+  }, [character.imageData]);
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  const refreshPreview = () => {
+    const canvas = canvasRef.current;
+    if (canvas) setPreviewUrl(canvas.toDataURL('image/png'));
+  };
+
+  const pushHistory = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    historyRef.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (historyRef.current.length > MAX_UNDO) historyRef.current.shift();
+    setCanUndo(true);
+  };
+
+  // Paints one brush stamp at cell (cx, cy) plus its mirrored copies
+  const stamp = (cx: number, cy: number) => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const cellW = canvas.width / grid;
+    const cellH = canvas.height / grid;
+    const x0 = cx - Math.floor((brushSize - 1) / 2);
+    const y0 = cy - Math.floor((brushSize - 1) / 2);
+
+    // Mirror the whole block through the format's regions, then snap back to the grid
+    const rects: UVMap[] = [{ uMin: x0 / grid, uMax: (x0 + brushSize) / grid, vMin: 1 - (y0 + brushSize) / grid, vMax: 1 - y0 / grid }];
+    const addMirrors = (regions: MirrorRegion[]) => {
+      [...rects].forEach(rect => {
+        const mirrored = mirrorRect(rect, regions);
+        if (mirrored) rects.push(mirrored);
+      });
+    };
+    if (mirrorLR) addMirrors(getMirrorRegions(format, 'leftRight'));
+    if (mirrorFB) addMirrors(getMirrorRegions(format, 'frontBack'));
+
+    for (const rect of rects) {
+      const px = Math.round(rect.uMin * grid) * cellW;
+      const py = Math.round((1 - rect.vMax) * grid) * cellH;
+      const pw = Math.round(rect.uMax * grid) * cellW - px;
+      const ph = Math.round((1 - rect.vMin) * grid) * cellH - py;
+      if (tool === 'pen') {
+        ctx.fillStyle = color;
+        ctx.fillRect(px, py, pw, ph);
+      } else if (tool === 'eraser' && originalRef.current) {
+        // Erasing restores the generated texture underneath
+        const img = originalRef.current;
+        const sxImg = img.naturalWidth / canvas.width;
+        const syImg = img.naturalHeight / canvas.height;
+        ctx.clearRect(px, py, pw, ph);
+        ctx.drawImage(img, px * sxImg, py * syImg, pw * sxImg, ph * syImg, px, py, pw, ph);
+      }
+    }
+  };
+
+  const getCell = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const cx = Math.floor(((e.clientX - rect.left) / rect.width) * grid);
+    const cy = Math.floor(((e.clientY - rect.top) / rect.height) * grid);
+    return [Math.max(0, Math.min(grid - 1, cx)), Math.max(0, Math.min(grid - 1, cy))];
+  };
+
+  const pickColor = (cx: number, cy: number) => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const x = Math.floor((cx + 0.5) * canvas.width / grid);
+    const y = Math.floor((cy + 0.5) * canvas.height / grid);
+    const [r, g, b] = ctx.getImageData(x, y, 1, 1).data;
+    setColor(toHex(r, g, b));
+    setTool('pen');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!ready) return;
+    const [cx, cy] = getCell(e);
+    if (tool === 'picker') {
+      pickColor(cx, cy);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushHistory();
+    stamp(cx, cy);
+    lastCellRef.current = [cx, cy];
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = lastCellRef.current;
+    if (!last) return;
+    const [cx, cy] = getCell(e);
+    // Fill the gap since the last event so quick strokes stay continuous
+    const steps = Math.max(Math.abs(cx - last[0]), Math.abs(cy - last[1]));
+    for (let i = 1; i <= steps; i++) {
+      stamp(Math.round(last[0] + (cx - last[0]) * i / steps), Math.round(last[1] + (cy - last[1]) * i / steps));
+    }
+    lastCellRef.current = [cx, cy];
+  };
+
+  const handlePointerUp = () => {
+    if (!lastCellRef.current) return;
+    lastCellRef.current = null;
+    refreshPreview();
+  };
+
+  const handleUndo = () => {
+    const snapshot = historyRef.current.pop();
+    const ctx = getContext();
+    if (!snapshot || !ctx) return;
+    ctx.putImageData(snapshot, 0, 0);
+    setCanUndo(historyRef.current.length > 0);
+    refreshPreview();
+  };
+
+  const handleReset = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx || !originalRef.current) return;
+    pushHistory();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(originalRef.current, 0, 0, canvas.width, canvas.height);
+    refreshPreview();
+  };
+
+  // Replaces every back region with its front region seen from behind
+  const handleCopyFrontToBack = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    pushHistory();
+    const toPixels = (map: UVMap) => [
+      map.uMin * canvas.width, (1 - map.vMax) * canvas.height,
+      (map.uMax - map.uMin) * canvas.width, (map.vMax - map.vMin) * canvas.height,
+    ];
+    for (const { from, to } of getFrontToBackRegions(format)) {
+      const [sx, sy, sw, sh] = toPixels(from);
+      const [dx, dy, dw, dh] = toPixels(to);
+      ctx.save();
+      ctx.translate(dx + dw, dy);
+      ctx.scale(-1, 1);
+      ctx.clearRect(0, 0, dw, dh);
+      ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, dw, dh);
+      ctx.restore();
+    }
+    refreshPreview();
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    if (canvas) onSave(canvas.toDataURL('image/png'));
+  };
+
+  const toolButton = (id: Tool, icon: React.ReactNode, title: string) => (
+    <button
+      onClick={() => setTool(id)}
+      title={title}
+      className={`p-3 rounded-xl transition ${tool === id ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/30' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+    >
+      {icon}
+    </button>
+  );
+
+  const toggleButton = (active: boolean, onClick: () => void, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={onClick}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition ${active ? 'bg-purple-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col lg:flex-row items-center justify-center min-h-screen h-full overflow-y-auto bg-slate-900 p-4 gap-8 text-white">
+
+      {/* Left Panel: Texture Canvas & Tools */}
+      <div className="flex flex-col items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">
+            Skin Editor
+          </h1>
+          <p className="text-slate-400 text-sm">Touch up {character.name}'s texture before heading out.</p>
+        </div>
+
+        <div className="relative bg-slate-800 rounded-xl shadow-2xl p-1 border border-slate-700">
+          <div className="relative w-[384px] h-[384px] max-w-[90vw] max-h-[90vw]">
+            <canvas
+              ref={canvasRef}
+              width={DEFAULT_SIZE}
+              height={DEFAULT_SIZE}
+              className="w-full h-full bg-white rounded-lg cursor-crosshair touch-none"
+              style={{ imageRendering: 'pixelated' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {showOverlay && <UVOverlay format={format} />}
+          </div>
+          <div className="absolute top-2 right-2 flex flex-col gap-2">
+            <button onClick={handleUndo} disabled={!canUndo} className="p-2 bg-slate-900/70 hover:bg-slate-700 rounded-lg disabled:opacity-40" title="Undo">
+              <Undo2 size={18} />
+            </button>
+            <button onClick={handleReset} className="p-2 bg-red-500/20 hover:bg-red-500/40 text-red-400 rounded-lg" title="Reset to generated texture">
+              <RotateCcw size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Tools */}
+        <div className="flex flex-wrap items-center gap-4 bg-slate-800/90 p-4 rounded-2xl border border-slate-700 justify-center max-w-[420px]">
+          <div className="flex items-center gap-2">
+            {toolButton('pen', <Pen size={20} />, 'Pen')}
+            {toolButton('eraser', <Eraser size={20} />, 'Eraser (restores the original)')}
+            {toolButton('picker', <Pipette size={20} />, 'Pick colour')}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {SWATCHES.map(c => (
+              <button
+                key={c}
+                onClick={() => { setColor(c); setTool('pen'); }}
+                className={`w-7 h-7 rounded-full border-2 transition hover:scale-110 ${color === c && tool === 'pen' ? 'border-white shadow-md scale-110' : 'border-slate-600'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+            <label className="relative w-7 h-7 rounded-full border-2 border-slate-600 flex items-center justify-center cursor-pointer" style={{ backgroundColor: color }} title="Custom colour">
+              <Palette size={14} className="mix-blend-difference" />
+              <input type="color" value={color} onChange={(e) => { setColor(e.target.value); setTool('pen'); }} className="absolute inset-0 opacity-0 cursor-pointer" />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            Brush
+            <input
+              type="range"
+              min="1"
+              max="12"
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value))}
+              className="w-24 accent-cyan-500"
+            />
+            <span className="font-mono w-6">{brushSize}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-2 justify-center">
+            {toggleButton(mirrorLR, () => setMirrorLR(m => !m), <FlipHorizontal size={14} />, 'Mirror L/R')}
+            {toggleButton(mirrorFB, () => setMirrorFB(m => !m), <ArrowLeftRight size={14} />, 'Mirror Front/Back')}
+            {toggleButton(showOverlay, () => setShowOverlay(o => !o), <Grid3x3 size={14} />, 'UV Regions')}
+            <button onClick={handleCopyFrontToBack} className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold bg-slate-700 text-slate-300 hover:bg-slate-600">
+              <Copy size={14} /> Front → Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Right Panel: Live 3D Preview */}
+      <div className="flex flex-col items-center gap-4">
+        <div className="w-[320px] h-[400px] bg-gradient-to-b from-slate-800 to-slate-950 rounded-2xl border border-slate-700 overflow-hidden">
+          <Canvas camera={{ position: [0, 1.2, 3.2], fov: 40 }}>
+            <ambientLight intensity={0.8} />
+            <directionalLight position={[3, 5, 4]} intensity={1.2} />
+            <directionalLight position={[-3, 2, -4]} intensity={0.5} />
+            <group position={[0, -0.9, 0]}>
+              <Turntable>
+                <BlockyCharacter textureUrl={previewUrl} skinFormat={character.skinFormat} motion="idle" />
+              </Turntable>
+            </group>
+          </Canvas>
+        </div>
+
+        <div className="flex gap-3 w-[320px]">
+          <button
+            onClick={onSkip}
+            className="flex-1 py-3 bg-slate-700 hover:bg-slate-600 rounded-xl text-sm font-bold"
+          >
+            Keep Original
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!ready}
+            className="flex-1 py-3 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 rounded-xl text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Check size={18} /> Save & Play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { SkinFormat, getPortraitRegion, isPixelSkin } from './skinFormats';
+
+interface SkinPortraitProps {
+  imageData: string;
+  format?: SkinFormat;
+  alt?: string;
+}
+
+// Scales the portrait region to the container's width, top edge first.
+// The container needs `relative overflow-hidden`.
+export const SkinPortrait: React.FC<SkinPortraitProps> = ({ imageData, format, alt = '' }) => {
+  const { uMin, uMax, vMax } = getPortraitRegion(format);
+  const width = uMax - uMin;
+  return (
+    <img
+      src={imageData}
+      alt={alt}
+      className="absolute top-0 max-w-none"
+      style={{
+        width: `${100 / width}%`,
+        left: `${-uMin / width * 100}%`,
+        // Percentages in translate are of the image's own height
+        transform: `translateY(${(vMax - 1) * 100}%)`,
+        imageRendering: isPixelSkin(format) ? 'pixelated' : undefined,
+      }}
+    />
+  );
+};
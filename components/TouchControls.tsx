@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { InputManager, TouchStick, TriggerAction } from '../utils/input';
+
+// --- On-Screen Touch Controls ---
+// Two virtual joysticks (move on the left, camera on the right) and action
+// buttons, feeding the same InputManager as the keyboard and gamepad.
+
+const STICK_RADIUS = 48; // px the knob can travel from the centre
+
+export const isTouchDevice = () =>
+  typeof window !== 'undefined' && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+
+const Joystick: React.FC<{ input: InputManager; stick: TouchStick; className: string }> = ({ input, stick, className }) => {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const pointerId = useRef<number | null>(null);
+  const [knob, setKnob] = useState<[number, number]>([0, 0]);
+
+  const update = (e: React.PointerEvent) => {
+    const base = baseRef.current;
+    if (!base) return;
+    const rect = base.getBoundingClientRect();
+    let dx = e.clientX - (rect.left + rect.width / 2);
+    let dy = e.clientY - (rect.top + rect.height / 2);
+    const dist = Math.hypot(dx, dy);
+    if (dist > STICK_RADIUS) {
+      dx *= STICK_RADIUS / dist;
+      dy *= STICK_RADIUS / dist;
+    }
+    setKnob([dx, dy]);
+    input.setTouchStick(stick, dx / STICK_RADIUS, -dy / STICK_RADIUS); // Screen Y points down
+  };
+
+  const release = (e: React.PointerEvent) => {
+    if (e.pointerId !== pointerId.current) return;
+    pointerId.current = null;
+    setKnob([0, 0]);
+    input.setTouchStick(stick, 0, 0);
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      className={`absolute w-32 h-32 rounded-full bg-slate-900/40 border-2 border-slate-500/50 touch-none select-none pointer-events-auto ${className}`}
+      onPointerDown={(e) => {
+        if (pointerId.current !== null) return;
+        pointerId.current = e.pointerId;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        update(e);
+      }}
+      onPointerMove={(e) => { if (e.pointerId === pointerId.current) update(e); }}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute left-1/2 top-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-slate-300/60 border border-white/40 pointer-events-none"
+        style={{ transform: `translate(${knob[0]}px, ${knob[1]}px)` }}
+      />
+    </div>
+  );
+};
+
+const TouchButton: React.FC<{ input: InputManager; action: 'sprint' | TriggerAction; label: string }> = ({ input, action, label }) => (
+  <button
+    className="w-14 h-14 rounded-full bg-slate-900/60 border border-slate-500/60 text-[10px] font-bold text-white active:bg-cyan-600/70 touch-none select-none"
+    onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); input.setTouchButton(action, true); }}
+    onPointerUp={() => input.setTouchButton(action, false)}
+    onPointerCancel={() => input.setTouchButton(action, false)}
+  >
+    {label}
+  </button>
+);
+
+export const TouchControls: React.FC<{ input: InputManager }> = ({ input }) => (
+  <div className="absolute inset-0 z-30 pointer-events-none">
+    <Joystick input={input} stick="move" className="bottom-8 left-8" />
+    <Joystick input={input} stick="look" className="bottom-8 right-8" />
+    <div className="absolute bottom-44 right-8 grid grid-cols-2 gap-2 pointer-events-auto">
+      <TouchButton input={input} action="jump" label="JUMP" />
+      <TouchButton input={input} action="strike" label="STRIKE" />
+      <TouchButton input={input} action="sprint" label="SPRINT" />
+      <TouchButton input={input} action="cast" label="LIGHT" />
+    </div>
+  </div>
+);
@@ -0,0 +1,150 @@
+import * as THREE from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { CameraMode, CameraSettings } from '../utils/cameraModes';
+import type { InputFrame } from '../utils/input';
+
+// --- Camera Rig ---
+// Drives the scene camera in every camera mode. The Player updates it once per
+// frame after moving; a mode switch blends from the previous view, and FOV
+// changes ease in whatever the mode.
+
+const ORBIT_TARGET_HEIGHT = 2;
+const EYE_HEIGHT = 1.6;       // Above the feet, inside the (hidden) head box
+const EYE_FORWARD = 0.1;
+const LOOK_SPEED = 2.5;       // Radians per second at full stick
+const DRAG_SPEED = 0.005;     // Radians per pixel of pointer drag
+const PITCH_LIMIT = Math.PI / 2 - 0.05;
+const FLY_SPRINT = 3;
+const TRANSITION_TIME = 0.6;  // Seconds
+const FOV_EASE = 6;           // Per second
+
+export interface CameraRigUpdate {
+  mode: CameraMode;
+  settings: CameraSettings;
+  frame: InputFrame;
+  delta: number;
+  player: THREE.Object3D;
+}
+
+export interface CameraRig {
+  // Pointer drag in pixels; steers first-person and free-fly (orbit drags go to OrbitControls)
+  addDrag: (dx: number, dy: number) => void;
+  update: (state: CameraRigUpdate) => void;
+  // Yaw the character should face in first person, as on the player group
+  facing: () => number;
+}
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+export const createCameraRig = (camera: THREE.PerspectiveCamera, getControls: () => OrbitControlsImpl | null): CameraRig => {
+  let mode: CameraMode | null = null;
+  let yaw = 0;
+  let pitch = 0;
+  let dragX = 0;
+  let dragY = 0;
+  const flyPosition = new THREE.Vector3();
+  let orbitOffset: THREE.Vector3 | null = null; // Camera relative to the orbit target, between frames
+  let transition: { position: THREE.Vector3; quaternion: THREE.Quaternion; elapsed: number } | null = null;
+  const forward = new THREE.Vector3();
+
+  // Takes yaw / pitch from wherever the camera is looking now
+  const adoptView = () => {
+    camera.getWorldDirection(forward);
+    yaw = Math.atan2(-forward.x, -forward.z);
+    pitch = Math.asin(THREE.MathUtils.clamp(forward.y, -1, 1));
+  };
+
+  const steer = (frame: InputFrame, delta: number, sensitivity: number) => {
+    yaw -= (frame.lookX * LOOK_SPEED * delta + dragX * DRAG_SPEED) * sensitivity;
+    pitch += (frame.lookY * LOOK_SPEED * delta - dragY * DRAG_SPEED) * sensitivity;
+    pitch = THREE.MathUtils.clamp(pitch, -PITCH_LIMIT, PITCH_LIMIT);
+    camera.rotation.set(pitch, yaw, 0, 'YXZ');
+  };
+
+  const updateOrbit = ({ settings, frame, delta, player }: CameraRigUpdate) => {
+    const controls = getControls();
+    if (!controls) return;
+    // Blending moved the camera last frame; OrbitControls works from the real orbit
+    if (orbitOffset) camera.position.copy(controls.target).add(orbitOffset);
+
+    // Stick / touch look orbits the camera like a mouse drag
+    if (frame.lookX || frame.lookY) {
+      const speed = LOOK_SPEED * settings.orbit.sensitivity * delta;
+      controls.setAzimuthalAngle(controls.getAzimuthalAngle() - frame.lookX * speed);
+      controls.setPolarAngle(controls.getPolarAngle() + frame.lookY * speed);
+    }
+    const target = new THREE.Vector3(player.position.x, player.position.y + ORBIT_TARGET_HEIGHT, player.position.z);
+    controls.target.lerp(target, 0.1);
+    controls.update();
+
+    // Scroll zoom is free within a unit of the configured distance
+    const camOffset = new THREE.Vector3().subVectors(camera.position, controls.target);
+    const desiredDist = settings.orbit.distance;
+    if (Math.abs(camOffset.length() - desiredDist) > 1) {
+      camOffset.setLength(THREE.MathUtils.lerp(camOffset.length(), desiredDist, 0.05));
+      camera.position.copy(controls.target).add(camOffset);
+    }
+    orbitOffset = camOffset.subVectors(camera.position, controls.target).clone();
+  };
+
+  const updateFirstPerson = ({ settings, frame, delta, player }: CameraRigUpdate) => {
+    steer(frame, delta, settings.firstPerson.sensitivity);
+    camera.position.set(
+      player.position.x - Math.sin(yaw) * EYE_FORWARD,
+      player.position.y + EYE_HEIGHT,
+      player.position.z - Math.cos(yaw) * EYE_FORWARD
+    );
+  };
+
+  const updateFreeFly = ({ settings, frame, delta }: CameraRigUpdate) => {
+    steer(frame, delta, settings.freeFly.sensitivity);
+    // Flies where the camera looks, pitch included
+    camera.getWorldDirection(forward);
+    const speed = settings.freeFly.speed * (frame.sprint ? FLY_SPRINT : 1) * delta;
+    flyPosition.addScaledVector(forward, frame.moveY * speed);
+    flyPosition.x += Math.cos(yaw) * frame.moveX * speed;
+    flyPosition.z -= Math.sin(yaw) * frame.moveX * speed;
+    camera.position.copy(flyPosition);
+  };
+
+  const update = (state: CameraRigUpdate) => {
+    if (state.mode !== mode) {
+      if (mode !== null) {
+        transition = { position: camera.position.clone(), quaternion: camera.quaternion.clone(), elapsed: 0 };
+      }
+      adoptView();
+      if (state.mode === 'firstPerson') pitch = 0;
+      if (state.mode === 'freeFly') flyPosition.copy(camera.position);
+      mode = state.mode;
+    }
+
+    if (mode === 'orbit') updateOrbit(state);
+    else if (mode === 'firstPerson') updateFirstPerson(state);
+    else updateFreeFly(state);
+    dragX = 0;
+    dragY = 0;
+
+    if (transition) {
+      transition.elapsed += state.delta;
+      const t = easeInOut(Math.min(1, transition.elapsed / TRANSITION_TIME));
+      camera.position.lerpVectors(transition.position, camera.position, t);
+      camera.quaternion.slerpQuaternions(transition.quaternion, camera.quaternion, t);
+      if (t === 1) transition = null;
+    }
+
+    const fov = state.settings[mode].fov;
+    if (Math.abs(camera.fov - fov) > 0.01) {
+      camera.fov = THREE.MathUtils.lerp(camera.fov, fov, Math.min(1, state.delta * FOV_EASE));
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  return {
+    addDrag: (dx, dy) => {
+      dragX += dx;
+      dragY += dy;
+    },
+    update,
+    facing: () => yaw + Math.PI,
+  };
+};
@@ -0,0 +1,156 @@
+import * as THREE from 'three';
+import { GLTFExporter, mergeBufferGeometries } from 'three-stdlib';
+import { CharacterData } from '../App';
+import { downloadBlob } from '../utils/download';
+import { RIG_BOXES, RIG_JOINTS, RIG_JOINT_IDS, RigJoint, RigMotion, applyBoxUVs, computePose } from './BlockyCharacter';
+import { BoxUVs, SkinPart, getSkinUVs, isPixelSkin } from './skinFormats';
+
+// --- GLB Export ---
+// Rebuilds BlockyCharacter as a single skinned mesh: one bone per joint, every
+// box rigidly weighted to its joint, and the procedural cycles baked to clips.
+
+interface BakedCycle {
+  name: string;
+  motion: RigMotion;
+  duration: number; // Seconds; chosen so every sine in computePose loops cleanly
+  fps: number;
+}
+
+const CYCLES: BakedCycle[] = [
+  // One stride; the slow head sway barely moves in that time
+  { name: 'Walk', motion: 'walk', duration: (Math.PI * 2) / 12, fps: 30 },
+  // Arms loop every 2π s, head sway every 20π/3 and 20π s
+  { name: 'Idle', motion: 'idle', duration: Math.PI * 20, fps: 4 },
+  // One arm scull (two leg kicks); the head holds still in the water
+  { name: 'Swim', motion: 'swim', duration: (Math.PI * 2) / 4, fps: 30 },
+];
+
+const loadTexture = (url: string, pixelated: boolean): Promise<THREE.Texture> => {
+  return new Promise((resolve, reject) => {
+    new THREE.TextureLoader().load(url, (tex) => {
+      tex.colorSpace = THREE.SRGBColorSpace;
+      if (pixelated) {
+        tex.minFilter = THREE.NearestFilter;
+        tex.magFilter = THREE.NearestFilter;
+      }
+      resolve(tex);
+    }, undefined, () => reject(new Error("Could not load character texture")));
+  });
+};
+
+// Rest-pose position of a joint in model space
+const jointWorldPosition = (joint: RigJoint): THREE.Vector3 => {
+  const pos = new THREE.Vector3();
+  for (let j: RigJoint | null = joint; j; j = RIG_JOINTS[j].parent) {
+    pos.add(new THREE.Vector3(...RIG_JOINTS[j].position));
+  }
+  return pos;
+};
+
+const buildSkeleton = () => {
+  const root = new THREE.Bone();
+  root.name = 'root';
+  const bones = new Map<RigJoint, THREE.Bone>();
+  for (const joint of RIG_JOINT_IDS) {
+    const bone = new THREE.Bone();
+    bone.name = joint;
+    bone.position.set(...RIG_JOINTS[joint].position);
+    bones.set(joint, bone);
+  }
+  for (const joint of RIG_JOINT_IDS) {
+    const parent = RIG_JOINTS[joint].parent;
+    (parent ? bones.get(parent)! : root).add(bones.get(joint)!);
+  }
+  return { root, bones, list: [root, ...RIG_JOINT_IDS.map(j => bones.get(j)!)] };
+};
+
+const buildGeometry = (skinUVs: Record<SkinPart, BoxUVs>, boneIndex: (joint: RigJoint) => number) => {
+  const parts = RIG_BOXES.map(box => {
+    const geometry = new THREE.BoxGeometry(...box.size);
+    applyBoxUVs(geometry, skinUVs[box.part]);
+    const centre = jointWorldPosition(box.joint).add(new THREE.Vector3(...box.offset));
+    geometry.translate(centre.x, centre.y, centre.z);
+
+    // Rigid skinning: every vertex follows its own joint only
+    const count = geometry.attributes.position.count;
+    const skinIndex = new Uint16Array(count * 4);
+    const skinWeight = new Float32Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      skinIndex[i * 4] = boneIndex(box.joint);
+      skinWeight[i * 4] = 1;
+    }
+    geometry.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(skinIndex, 4));
+    geometry.setAttribute('skinWeight', new THREE.Float32BufferAttribute(skinWeight, 4));
+    return geometry;
+  });
+  const merged = mergeBufferGeometries(parts);
+  parts.forEach(g => g.dispose());
+  if (!merged) throw new Error("Could not merge character geometry");
+  return merged;
+};
+
+const bakeClip = (cycle: BakedCycle): THREE.AnimationClip => {
+  const frames = Math.max(2, Math.round(cycle.duration * cycle.fps) + 1);
+  const times: number[] = [];
+  const rotations = new Map<RigJoint, number[]>();
+  const positions = new Map<RigJoint, number[]>();
+  const euler = new THREE.Euler();
+  const quat = new THREE.Quaternion();
+
+  for (let f = 0; f < frames; f++) {
+    const t = (f / (frames - 1)) * cycle.duration;
+    times.push(t);
+    const pose = computePose(t, cycle.motion);
+    for (const joint of RIG_JOINT_IDS) {
+      const { rotation, y } = pose[joint];
+      quat.setFromEuler(euler.set(rotation[0], rotation[1], rotation[2]));
+      if (!rotations.has(joint)) rotations.set(joint, []);
+      rotations.get(joint)!.push(quat.x, quat.y, quat.z, quat.w);
+      if (y !== undefined) {
+        const [x, , z] = RIG_JOINTS[joint].position;
+        if (!positions.has(joint)) positions.set(joint, []);
+        positions.get(joint)!.push(x, y, z);
+      }
+    }
+  }
+
+  const tracks: THREE.KeyframeTrack[] = [];
+  rotations.forEach((values, joint) => tracks.push(new THREE.QuaternionKeyframeTrack(`${joint}.quaternion`, times, values)));
+  positions.forEach((values, joint) => tracks.push(new THREE.VectorKeyframeTrack(`${joint}.position`, times, values)));
+  return new THREE.AnimationClip(cycle.name, cycle.duration, tracks);
+};
+
+// Builds the rigged, textured, animated character and encodes it as GLB
+export const exportCharacterGLB = async (character: CharacterData): Promise<ArrayBuffer> => {
+  const texture = await loadTexture(character.imageData, isPixelSkin(character.skinFormat));
+  const skeleton = buildSkeleton();
+  const geometry = buildGeometry(getSkinUVs(character.skinFormat), joint => skeleton.list.indexOf(skeleton.bones.get(joint)!));
+  const material = new THREE.MeshStandardMaterial({ map: texture, roughness: 0.6, metalness: 0.2 });
+
+  const mesh = new THREE.SkinnedMesh(geometry, material);
+  mesh.name = character.name;
+  mesh.add(skeleton.root);
+  mesh.bind(new THREE.Skeleton(skeleton.list));
+
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+
+  try {
+    const result = await new GLTFExporter().parseAsync(scene, {
+      binary: true,
+      animations: CYCLES.map(bakeClip),
+    });
+    if (!(result instanceof ArrayBuffer)) throw new Error("Exporter did not return binary data");
+    return result;
+  } finally {
+    geometry.dispose();
+    material.dispose();
+    texture.dispose();
+  }
+};
+
+export const downloadCharacterGLB = async (character: CharacterData) => {
+  const glb = await exportCharacterGLB(character);
+  const blob = new Blob([glb], { type: 'model/gltf-binary' });
+  downloadBlob(blob, `${character.name.replace(/[^\w-]+/g, '_') || 'character'}.glb`);
+};
@@ -0,0 +1,23 @@
+import * as THREE from 'three';
+
+export type Season = 'Spring' | 'Summer' | 'Autumn' | 'Winter';
+export type Weather = 'Clear' | 'Rain' | 'Snow';
+
+// Helper to shift colors based on season
+export const getSeasonalColor = (baseColor: string, type: string, season: Season, biome: string) => {
+    if (biome === 'snow' || biome === 'magical' || biome === 'volcanic' || biome === 'desert') return baseColor;
+  
+    const c = new THREE.Color(baseColor);
+    
+    if (type === 'ground') {
+        if (season === 'Winter') return '#e2e8f0'; // Snow cover
+        if (season === 'Autumn') { c.offsetHSL(0.05, -0.2, -0.1); return '#' + c.getHexString(); } // Dry
+    }
+    if (type === 'foliage') { // Tree leaves, bushes, grass
+        if (season === 'Winter') return '#f1f5f9'; // Snow covered
+        if (season === 'Autumn') return '#e76f51'; // Orange/Red
+        if (season === 'Spring') { c.offsetHSL(0.1, 0.2, 0.1); return '#' + c.getHexString(); } // Vibrant Green
+        if (season === 'Summer') { c.offsetHSL(0, 0, -0.1); return '#' + c.getHexString(); } // Deep Green
+    }
+    return baseColor;
+};
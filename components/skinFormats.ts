@@ -0,0 +1,399 @@
+// --- Skin Formats ---
+// A skin texture is a single image; each format says which region of it lands
+// on each face of each BlockyCharacter box.
+
+export type SkinFormat =
+  | 'split'         // Older AI skins: front view | back view
+  | 'sheet'         // AI generated: front | back | left | right views over a top / bottom strip
+  | 'classic'       // Standard 64x64 blocky-game skin, 4px arms
+  | 'classicSlim';  // Same, 3px arms
+
+export const SKIN_FORMATS: SkinFormat[] = ['split', 'sheet', 'classic', 'classicSlim'];
+
+// A texture together with the layout it was painted in
+export interface SkinTexture {
+  imageData: string;
+  format: SkinFormat;
+}
+
+export interface UVMap {
+    uMin: number; uMax: number;
+    vMin: number; vMax: number;
+}
+
+// Left / right are as seen facing the character's front, matching armL / legL (-X).
+// When a layout has no dedicated side regions both sides share `side`.
+export interface BoxUVs {
+  front: UVMap;
+  back: UVMap;
+  side: UVMap;
+  left?: UVMap;
+  right?: UVMap;
+  top: UVMap;
+  bottom: UVMap;
+}
+
+// --- Split Layout (older AI skins) ---
+// Image Layout: Left Half = Front, Right Half = Back
+// Sides, tops and bottoms are thin slices borrowed from the front / back views.
+// Heights: Top 0.75-1.0 (Head), Mid 0.40-0.75 (Torso/Arms), Bot 0.0-0.40 (Legs)
+
+const HEAD_V = { vMin: 0.75, vMax: 1.0 };
+const BODY_V = { vMin: 0.40, vMax: 0.75 };
+const LEG_V  = { vMin: 0.0, vMax: 0.40 };
+
+// Limb Splits (Vertical for joints)
+const ARM_SPLIT = 0.58; // Y-split for elbow
+const LEG_SPLIT = 0.20; // Y-split for knee
+
+const uvHead: BoxUVs = { 
+    front: { uMin: 0.125, uMax: 0.375, ...HEAD_V },
+    back: { uMin: 0.625, uMax: 0.875, ...HEAD_V },
+    side: { uMin: 0.0, uMax: 0.125, ...HEAD_V },
+    top: { uMin: 0.125, uMax: 0.375, vMin: 0.9, vMax: 1.0 }, // Fake top
+    bottom: { uMin: 0.125, uMax: 0.375, vMin: 0.75, vMax: 0.8 }
+};
+
+const uvTorso: BoxUVs = {
+    front: { uMin: 0.15, uMax: 0.35, ...BODY_V },
+    back: { uMin: 0.65, uMax: 0.85, ...BODY_V },
+    side: { uMin: 0.12, uMax: 0.15, ...BODY_V },
+    top: { uMin: 0.15, uMax: 0.35, vMin: 0.74, vMax: 0.75 },
+    bottom: { uMin: 0.15, uMax: 0.35, vMin: 0.40, vMax: 0.41 }
+};
+
+// --- ARM UVs ---
+// Upper Arm: Top half of arm texture
+const uvUpperArmR: BoxUVs = {
+    front: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: 0.75 },
+    back: { uMin: 0.85, uMax: 1.0, vMin: ARM_SPLIT, vMax: 0.75 },
+    side: { uMin: 0.0, uMax: 0.05, vMin: ARM_SPLIT, vMax: 0.75 },
+    top: { uMin: 0.0, uMax: 0.15, vMin: 0.74, vMax: 0.75 },
+    bottom: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 }
+};
+const uvLowerArmR: BoxUVs = {
+    front: { uMin: 0.0, uMax: 0.15, vMin: 0.40, vMax: ARM_SPLIT },
+    back: { uMin: 0.85, uMax: 1.0, vMin: 0.40, vMax: ARM_SPLIT },
+    side: { uMin: 0.0, uMax: 0.05, vMin: 0.40, vMax: ARM_SPLIT },
+    top: { uMin: 0.0, uMax: 0.15, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 },
+    bottom: { uMin: 0.0, uMax: 0.15, vMin: 0.40, vMax: 0.41 } // Hand
+};
+
+const uvUpperArmL: BoxUVs = {
+    front: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: 0.75 },
+    back: { uMin: 0.50, uMax: 0.65, vMin: ARM_SPLIT, vMax: 0.75 },
+    side: { uMin: 0.45, uMax: 0.50, vMin: ARM_SPLIT, vMax: 0.75 },
+    top: { uMin: 0.35, uMax: 0.50, vMin: 0.74, vMax: 0.75 },
+    bottom: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 }
+};
+const uvLowerArmL: BoxUVs = {
+    front: { uMin: 0.35, uMax: 0.50, vMin: 0.40, vMax: ARM_SPLIT },
+    back: { uMin: 0.50, uMax: 0.65, vMin: 0.40, vMax: ARM_SPLIT },
+    side: { uMin: 0.45, uMax: 0.50, vMin: 0.40, vMax: ARM_SPLIT },
+    top: { uMin: 0.35, uMax: 0.50, vMin: ARM_SPLIT, vMax: ARM_SPLIT+0.01 },
+    bottom: { uMin: 0.35, uMax: 0.50, vMin: 0.40, vMax: 0.41 }
+};
+
+// --- LEG UVs ---
+const uvUpperLegR: BoxUVs = {
+    front: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: 0.40 },
+    back: { uMin: 0.75, uMax: 0.95, vMin: LEG_SPLIT, vMax: 0.40 },
+    side: { uMin: 0.0, uMax: 0.05, vMin: LEG_SPLIT, vMax: 0.40 },
+    top: { uMin: 0.05, uMax: 0.25, vMin: 0.39, vMax: 0.40 },
+    bottom: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 }
+};
+const uvLowerLegR: BoxUVs = {
+    front: { uMin: 0.05, uMax: 0.25, vMin: 0.0, vMax: LEG_SPLIT },
+    back: { uMin: 0.75, uMax: 0.95, vMin: 0.0, vMax: LEG_SPLIT },
+    side: { uMin: 0.0, uMax: 0.05, vMin: 0.0, vMax: LEG_SPLIT },
+    top: { uMin: 0.05, uMax: 0.25, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 },
+    bottom: { uMin: 0.05, uMax: 0.25, vMin: 0.0, vMax: 0.01 } // Foot
+};
+
+const uvUpperLegL: BoxUVs = {
+    front: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: 0.40 },
+    back: { uMin: 0.55, uMax: 0.75, vMin: LEG_SPLIT, vMax: 0.40 },
+    side: { uMin: 0.45, uMax: 0.50, vMin: LEG_SPLIT, vMax: 0.40 },
+    top: { uMin: 0.25, uMax: 0.45, vMin: 0.39, vMax: 0.40 },
+    bottom: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 }
+};
+const uvLowerLegL: BoxUVs = {
+    front: { uMin: 0.25, uMax: 0.45, vMin: 0.0, vMax: LEG_SPLIT },
+    back: { uMin: 0.55, uMax: 0.75, vMin: 0.0, vMax: LEG_SPLIT },
+    side: { uMin: 0.45, uMax: 0.50, vMin: 0.0, vMax: LEG_SPLIT },
+    top: { uMin: 0.25, uMax: 0.45, vMin: LEG_SPLIT, vMax: LEG_SPLIT+0.01 },
+    bottom: { uMin: 0.25, uMax: 0.45, vMin: 0.0, vMax: 0.01 }
+};
+
+// Every box of the rig and the texture regions it samples
+export const SPLIT_SKIN_UVS = {
+  head: uvHead,
+  torso: uvTorso,
+  upperArmR: uvUpperArmR,
+  lowerArmR: uvLowerArmR,
+  upperArmL: uvUpperArmL,
+  lowerArmL: uvLowerArmL,
+  upperLegR: uvUpperLegR,
+  lowerLegR: uvLowerLegR,
+  upperLegL: uvUpperLegL,
+  lowerLegL: uvLowerLegL,
+};
+
+export type SkinPart = keyof typeof SPLIT_SKIN_UVS;
+
+// --- Sheet Layout (AI generated) ---
+// Top 3/4 of the image: four equal columns, each a full-height view of the
+// character with the same head / torso / legs bands as the split layout:
+//   FRONT | BACK | LEFT SIDE (facing image-left) | RIGHT SIDE (facing image-right)
+// Bottom 1/4: TOP view (looking down, front towards the image bottom) on the
+// left, BOTTOM view (looking up, toes towards the image top) on the right.
+// One world unit spans one column horizontally.
+
+export const SHEET_COLUMNS = 4;
+export const SHEET_STRIP_V = 0.25; // Height of the top / bottom strip
+export const SHEET_VIEWS = ['front', 'back', 'left side', 'right side'] as const;
+
+// u: fraction across a view column, v: fraction up the figure (0 = feet, 1 = top of head)
+const sheetView = (column: number, uMin: number, uMax: number, vMin: number, vMax: number): UVMap => ({
+  uMin: (column + uMin) / SHEET_COLUMNS,
+  uMax: (column + uMax) / SHEET_COLUMNS,
+  vMin: SHEET_STRIP_V + vMin * (1 - SHEET_STRIP_V),
+  vMax: SHEET_STRIP_V + vMax * (1 - SHEET_STRIP_V),
+});
+
+// Re-homes a split-layout region (half-width view starting at `halfStart`) into a sheet column
+const fromSplit = (map: UVMap, halfStart: number, column: number): UVMap =>
+  sheetView(column, (map.uMin - halfStart) * 2, (map.uMax - halfStart) * 2, map.vMin, map.vMax);
+
+// Rectangle of the top or bottom view. Each view covers x -0.5..0.5 and
+// z -0.25..0.25 (world units, character-local); x runs left to right.
+const sheetPlan = (view: 'top' | 'bottom', x: number, z: number, width: number, depth: number): UVMap => {
+  const u0 = view === 'top' ? 0 : 0.5;
+  // Top view has the front at the image bottom, bottom view at the image top
+  const vAt = (zz: number) => SHEET_STRIP_V * (view === 'top' ? 0.5 - zz * 2 : 0.5 + zz * 2);
+  return {
+    uMin: u0 + (x - width / 2 + 0.5) / 2,
+    uMax: u0 + (x + width / 2 + 0.5) / 2,
+    vMin: vAt(view === 'top' ? z + depth / 2 : z - depth / 2),
+    vMax: vAt(view === 'top' ? z - depth / 2 : z + depth / 2),
+  };
+};
+
+// Depth of each box as a span across the side columns, and its footprint in
+// the top / bottom views (x centre, width, depth). Mirrors RIG_BOXES.
+const SHEET_PARTS: Record<SkinPart, { profile: [number, number]; x: number; width: number; depth: number }> = {
+  head:      { profile: [0.25, 0.75], x: 0,     width: 0.5,  depth: 0.5 },
+  torso:     { profile: [0.36, 0.64], x: 0,     width: 0.4,  depth: 0.28 },
+  upperArmL: { profile: [0.41, 0.59], x: -0.32, width: 0.18, depth: 0.18 },
+  lowerArmL: { profile: [0.42, 0.58], x: -0.32, width: 0.16, depth: 0.16 },
+  upperArmR: { profile: [0.41, 0.59], x: 0.32,  width: 0.18, depth: 0.18 },
+  lowerArmR: { profile: [0.42, 0.58], x: 0.32,  width: 0.16, depth: 0.16 },
+  upperLegL: { profile: [0.40, 0.60], x: -0.11, width: 0.20, depth: 0.20 },
+  lowerLegL: { profile: [0.41, 0.59], x: -0.11, width: 0.18, depth: 0.18 },
+  upperLegR: { profile: [0.40, 0.60], x: 0.11,  width: 0.20, depth: 0.20 },
+  lowerLegR: { profile: [0.41, 0.59], x: 0.11,  width: 0.18, depth: 0.18 },
+};
+
+// Faces hidden inside a joint or under the head keep sampling a slice of the
+// front view; the top / bottom views only hold what can be seen from there.
+const HIDDEN_FACES: Partial<Record<SkinPart, ('top' | 'bottom')[]>> = {
+  head: ['bottom'], torso: ['top', 'bottom'],
+  upperArmL: ['bottom'], lowerArmL: ['top'],
+  upperArmR: ['bottom'], lowerArmR: ['top'],
+  upperLegL: ['bottom'], lowerLegL: ['top'],
+  upperLegR: ['bottom'], lowerLegR: ['top'],
+};
+
+// The split tables sample each limb from the opposite side of the picture,
+// which only goes unnoticed on symmetric skins. Sheet views are read as drawn.
+const mirrorPart = (part: SkinPart): SkinPart => {
+  if (part.endsWith('L')) return `${part.slice(0, -1)}R` as SkinPart;
+  if (part.endsWith('R')) return `${part.slice(0, -1)}L` as SkinPart;
+  return part;
+};
+
+const sheetPartUVs = (part: SkinPart): BoxUVs => {
+  const drawn = SPLIT_SKIN_UVS[mirrorPart(part)];
+  const { profile, x, width, depth } = SHEET_PARTS[part];
+  const plan = (view: 'top' | 'bottom') => HIDDEN_FACES[part]?.includes(view)
+    ? fromSplit(drawn[view], 0, 0)
+    : sheetPlan(view, x, 0, width, depth);
+  // -X faces show the character's right side, +X faces its left
+  const { vMin, vMax } = drawn.front;
+  const right = sheetView(2, profile[0], profile[1], vMin, vMax);
+  const left = sheetView(3, profile[0], profile[1], vMin, vMax);
+  return {
+    front: fromSplit(drawn.front, 0, 0),
+    back: fromSplit(drawn.back, 0.5, 1),
+    side: left,
+    left,
+    right,
+    top: plan('top'),
+    bottom: plan('bottom'),
+  };
+};
+
+const SHEET_SKIN_UVS = Object.fromEntries(
+  (Object.keys(SPLIT_SKIN_UVS) as SkinPart[]).map(part => [part, sheetPartUVs(part)])
+) as Record<SkinPart, BoxUVs>;
+
+// --- Classic Layout (64x64 blocky-game skins) ---
+// Each box is stored as an unfolded net: top and bottom above a strip of
+// right, front, left, back faces. "Right" there is the character's own right,
+// which is our -X / left side.
+
+const SKIN_PX = 64;
+
+const pxRect = (x: number, y: number, w: number, h: number): UVMap => ({
+  uMin: x / SKIN_PX, uMax: (x + w) / SKIN_PX,
+  vMin: 1 - (y + h) / SKIN_PX, vMax: 1 - y / SKIN_PX,
+});
+
+// Net at (x, y) for a box w wide, h tall, d deep. `rows` slices the side strip
+// vertically so limbs can be split at the elbow / knee.
+const boxNet = (x: number, y: number, w: number, h: number, d: number, rows: [number, number] = [0, h]): BoxUVs => {
+  const sy = y + d + rows[0];
+  const sh = rows[1] - rows[0];
+  const charRight = pxRect(x, sy, d, sh);
+  return {
+    top: pxRect(x + d, y, w, d),
+    bottom: pxRect(x + d + w, y, w, d),
+    side: charRight,
+    left: charRight,
+    right: pxRect(x + d + w, sy, d, sh),
+    front: pxRect(x + d, sy, w, sh),
+    back: pxRect(x + 2 * d + w, sy, w, sh),
+  };
+};
+
+const classicSkinUVs = (armWidth: number): Record<SkinPart, BoxUVs> => {
+  const upper: [number, number] = [0, 6];
+  const lower: [number, number] = [6, 12];
+  return {
+    head: boxNet(0, 0, 8, 8, 8),
+    torso: boxNet(16, 16, 8, 12, 4),
+    // Character's right limbs sit on our -X ("L") side
+    upperArmL: boxNet(40, 16, armWidth, 12, 4, upper),
+    lowerArmL: boxNet(40, 16, armWidth, 12, 4, lower),
+    upperArmR: boxNet(32, 48, armWidth, 12, 4, upper),
+    lowerArmR: boxNet(32, 48, armWidth, 12, 4, lower),
+    upperLegL: boxNet(0, 16, 4, 12, 4, upper),
+    lowerLegL: boxNet(0, 16, 4, 12, 4, lower),
+    upperLegR: boxNet(16, 48, 4, 12, 4, upper),
+    lowerLegR: boxNet(16, 48, 4, 12, 4, lower),
+  };
+};
+
+const CLASSIC_SKIN_UVS = classicSkinUVs(4);
+const CLASSIC_SLIM_SKIN_UVS = classicSkinUVs(3);
+
+export const getSkinUVs = (format: SkinFormat = 'split'): Record<SkinPart, BoxUVs> => {
+  switch (format) {
+    case 'classic': return CLASSIC_SKIN_UVS;
+    case 'classicSlim': return CLASSIC_SLIM_SKIN_UVS;
+    case 'sheet': return SHEET_SKIN_UVS;
+    default: return SPLIT_SKIN_UVS;
+  }
+};
+
+// Classic skins are pixel art and should not be smoothed
+export const isPixelSkin = (format: SkinFormat = 'split') => format === 'classic' || format === 'classicSlim';
+
+// Region shown in avatars and save thumbnails: the front view of AI skins,
+// the face of classic skins
+export const getPortraitRegion = (format: SkinFormat = 'split'): UVMap => {
+  switch (format) {
+    case 'classic':
+    case 'classicSlim': return CLASSIC_SKIN_UVS.head.front;
+    case 'sheet': return sheetView(0, 0, 1, 0, 1);
+    default: return { uMin: 0, uMax: 0.5, vMin: 0, vMax: 1 };
+  }
+};
+
+// --- Mirroring ---
+// Regions the skin editor copies strokes between. `to` receives `from` flipped
+// horizontally, or vertically for top / bottom faces mirrored front to back.
+
+export type MirrorAxis = 'leftRight' | 'frontBack';
+
+export interface MirrorRegion {
+  from: UVMap;
+  to: UVMap;
+  flip: 'x' | 'y';
+}
+
+const uvRect = (uMin: number, uMax: number, vMin: number, vMax: number): UVMap => ({ uMin, uMax, vMin, vMax });
+
+const onto = (from: UVMap, to: UVMap, flip: 'x' | 'y' = 'x'): MirrorRegion => ({ from, to, flip });
+const swap = (a: UVMap, b: UVMap): MirrorRegion[] => [onto(a, b), onto(b, a)];
+
+const SPLIT_FRONT = uvRect(0, 0.5, 0, 1);
+const SPLIT_BACK = uvRect(0.5, 1, 0, 1);
+
+const sheetColumn = (column: number) => sheetView(column, 0, 1, 0, 1);
+const SHEET_TOP = uvRect(0, 0.5, 0, SHEET_STRIP_V);
+const SHEET_BOTTOM = uvRect(0.5, 1, 0, SHEET_STRIP_V);
+
+// Classic nets: left / right mirroring lands in the opposite limb's net
+const classicMirror = (uvs: Record<SkinPart, BoxUVs>, axis: MirrorAxis): MirrorRegion[] =>
+  (Object.keys(uvs) as SkinPart[]).flatMap(part => {
+    const own = uvs[part];
+    const left = own.left ?? own.side;
+    const right = own.right ?? own.side;
+    if (axis === 'frontBack') {
+      return [...swap(own.front, own.back), onto(left, left), onto(right, right), onto(own.top, own.top, 'y'), onto(own.bottom, own.bottom, 'y')];
+    }
+    const other = uvs[mirrorPart(part)];
+    return [
+      onto(own.front, other.front), onto(own.back, other.back),
+      onto(left, other.right ?? other.side), onto(right, other.left ?? other.side),
+      onto(own.top, other.top), onto(own.bottom, other.bottom),
+    ];
+  });
+
+export const getMirrorRegions = (format: SkinFormat = 'split', axis: MirrorAxis): MirrorRegion[] => {
+  switch (format) {
+    case 'classic':
+    case 'classicSlim':
+      return classicMirror(getSkinUVs(format), axis);
+    case 'sheet': {
+      const [front, back, right, left] = [0, 1, 2, 3].map(sheetColumn);
+      return axis === 'leftRight'
+        ? [onto(front, front), onto(back, back), ...swap(right, left), onto(SHEET_TOP, SHEET_TOP), onto(SHEET_BOTTOM, SHEET_BOTTOM)]
+        : [...swap(front, back), onto(right, right), onto(left, left), onto(SHEET_TOP, SHEET_TOP, 'y'), onto(SHEET_BOTTOM, SHEET_BOTTOM, 'y')];
+    }
+    default:
+      return axis === 'leftRight'
+        ? [onto(SPLIT_FRONT, SPLIT_FRONT), onto(SPLIT_BACK, SPLIT_BACK)]
+        : swap(SPLIT_FRONT, SPLIT_BACK);
+  }
+};
+
+// Front regions and the back regions they become, seen from behind
+export const getFrontToBackRegions = (format: SkinFormat = 'split'): MirrorRegion[] => {
+  switch (format) {
+    case 'classic':
+    case 'classicSlim': {
+      const uvs = getSkinUVs(format);
+      return (Object.keys(uvs) as SkinPart[]).map(part => onto(uvs[part].front, uvs[part].back));
+    }
+    case 'sheet': return [onto(sheetColumn(0), sheetColumn(1))];
+    default: return [onto(SPLIT_FRONT, SPLIT_BACK)];
+  }
+};
+
+// Maps `rect` through the region holding its centre; null outside every region
+export const mirrorRect = (rect: UVMap, regions: MirrorRegion[]): UVMap | null => {
+  const u = (rect.uMin + rect.uMax) / 2;
+  const v = (rect.vMin + rect.vMax) / 2;
+  const region = regions.find(({ from }) => u >= from.uMin && u < from.uMax && v >= from.vMin && v < from.vMax);
+  if (!region) return null;
+  const { from, to, flip } = region;
+  const su = (to.uMax - to.uMin) / (from.uMax - from.uMin);
+  const sv = (to.vMax - to.vMin) / (from.vMax - from.vMin);
+  const mapU = (x: number) => flip === 'x' ? to.uMax - (x - from.uMin) * su : to.uMin + (x - from.uMin) * su;
+  const mapV = (y: number) => flip === 'y' ? to.vMax - (y - from.vMin) * sv : to.vMin + (y - from.vMin) * sv;
+  const [u0, u1] = [mapU(rect.uMin), mapU(rect.uMax)].sort((a, b) => a - b);
+  const [v0, v1] = [mapV(rect.vMin), mapV(rect.vMax)].sort((a, b) => a - b);
+  return { uMin: u0, uMax: u1, vMin: v0, vMax: v1 };
+};
@@ -0,0 +1,95 @@
+import type { CharacterData } from '../App';
+import type { SkinFormat } from '../components/skinFormats';
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+
+// --- AI Provider Layer ---
+// Character creation needs two things from a model: a skin texture and a
+// profile (name, lore, stats). Each backend implements both steps.
+
+export type AIProviderId = 'gemini' | 'local';
+
+export interface TextureRequest {
+  prompt: string;
+  sketchData?: string; // PNG data URL from DrawingPad
+  feedback?: string[];  // Layout problems with the previous attempt, for re-prompting
+}
+
+export type CharacterProfile = Pick<CharacterData, 'name' | 'description' | 'stats'>;
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  textureFormat: SkinFormat; // Layout generateTexture paints in
+  fullBleed?: boolean;       // Textures fill the whole image, with no backdrop around the views
+  // Resolves to an image data URL in `textureFormat`
+  generateTexture: (request: TextureRequest) => Promise<string>;
+  generateProfile: (prompt: string) => Promise<CharacterProfile>;
+}
+
+export const clampStat = (value: unknown, field: string) => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    throw new Error(`Profile stat "${field}" is not a number`);
+  }
+  return Math.max(1, Math.min(10, Math.round(n)));
+};
+
+const requireText = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Profile field "${field}" is missing`);
+  }
+  return value.trim();
+};
+
+// Validates raw model output against the profile schema. Wrong types throw
+// (so the call can be retried); out-of-range stats are clamped to 1-10.
+export const parseProfile = (raw: unknown): CharacterProfile => {
+  if (!raw || typeof raw !== 'object') throw new Error("Profile is not an object");
+  const data = raw as Record<string, unknown>;
+  const stats = data.stats as Record<string, unknown> | undefined;
+  if (!stats || typeof stats !== 'object') throw new Error("Profile has no stats");
+
+  const description = requireText(data.description, 'description');
+  return {
+    name: requireText(data.name, 'name'),
+    description: description.length > 120 ? `${description.slice(0, 117)}...` : description,
+    stats: {
+      strength: clampStat(stats.strength, 'strength'),
+      speed: clampStat(stats.speed, 'speed'),
+      magic: clampStat(stats.magic, 'magic'),
+    },
+  };
+};
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+export const AI_PROVIDERS = Object.values(PROVIDERS);
+
+export const getAIProvider = (id: AIProviderId): AIProvider => PROVIDERS[id];
+
+export const isGeminiConfigured = () => !!process.env.API_KEY;
+
+const PREFERENCE_KEY = 'aiProvider';
+
+// Stored choice if any, otherwise Gemini when a key is configured, else offline
+export const getPreferredProviderId = (): AIProviderId => {
+  try {
+    const stored = localStorage.getItem(PREFERENCE_KEY);
+    if (stored === 'gemini' || stored === 'local') return stored;
+  } catch {
+    // localStorage can throw in sandboxed frames; fall through to the default
+  }
+  return isGeminiConfigured() ? 'gemini' : 'local';
+};
+
+export const setPreferredProviderId = (id: AIProviderId) => {
+  try {
+    localStorage.setItem(PREFERENCE_KEY, id);
+  } catch {
+    // Preference is a convenience; not persisting it is fine
+  }
+};
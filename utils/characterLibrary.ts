@@ -0,0 +1,32 @@
+import type { CharacterData } from '../App';
+import { getAll, putOne, deleteOne } from './storage';
+
+// --- Character Roster ---
+// Every forged hero is kept so it can be replayed without new AI calls.
+
+export interface RosterEntry {
+  id: string;
+  createdAt: number; // ms since epoch
+  character: CharacterData;
+}
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listCharacters = async (): Promise<RosterEntry[]> => {
+  const entries = await getAll<RosterEntry>('characters');
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const addCharacter = async (character: CharacterData): Promise<RosterEntry> => {
+  const entry: RosterEntry = { id: newId(), createdAt: Date.now(), character };
+  await putOne('characters', entry);
+  return entry;
+};
+
+export const duplicateCharacter = (entry: RosterEntry) =>
+  addCharacter({ ...entry.character, name: `${entry.character.name} (Copy)` });
+
+export const deleteCharacter = (id: string) => deleteOne('characters', id);
@@ -0,0 +1,61 @@
+import { ChunkData, BiomeType, WATER_LEVEL } from './worldGen';
+
+// --- Chunk Memory Budget ---
+// Full chunks (objects + heightmap) are kept for a bounded number of chunks.
+// Anything evicted leaves a tiny summary behind so the Minimap can still draw
+// explored territory.
+
+export const DEFAULT_CHUNK_BUDGET = 120;
+
+export interface ChunkSummary {
+  x: number;
+  z: number;
+  biomeType: BiomeType;
+  groundColor: string;
+  elevation: number; // Mean terrain height, for Minimap shading
+  water: number;     // Share of the terrain below WATER_LEVEL, 0-1
+}
+
+export const summarizeChunk = (chunk: ChunkData): ChunkSummary => {
+  let sum = 0;
+  let wet = 0;
+  for (let i = 0; i < chunk.heights.length; i++) {
+    sum += chunk.heights[i];
+    if (chunk.heights[i] < WATER_LEVEL) wet++;
+  }
+  return {
+    x: chunk.x,
+    z: chunk.z,
+    biomeType: chunk.biomeType,
+    groundColor: chunk.groundColor,
+    elevation: sum / chunk.heights.length,
+    water: wet / chunk.heights.length,
+  };
+};
+
+// Picks the keys to drop so that at most `budget` chunks remain. Chunks in
+// `keep` (the active view) are never evicted. The farthest chunks go first;
+// among equally distant ones, the least recently used.
+export const selectEvictions = (
+  chunks: Map<string, ChunkData>,
+  lastUsed: Map<string, number>,
+  focus: { cx: number; cz: number },
+  budget: number,
+  keep: Set<string>
+): string[] => {
+  const excess = chunks.size - budget;
+  if (excess <= 0) return [];
+
+  const candidates: { key: string; dist: number; used: number }[] = [];
+  chunks.forEach((chunk, key) => {
+    if (keep.has(key)) return;
+    candidates.push({
+      key,
+      dist: Math.max(Math.abs(chunk.x - focus.cx), Math.abs(chunk.z - focus.cz)),
+      used: lastUsed.get(key) ?? 0,
+    });
+  });
+
+  candidates.sort((a, b) => (b.dist - a.dist) || (a.used - b.used));
+  return candidates.slice(0, excess).map(c => c.key);
+};
@@ -0,0 +1,150 @@
+import { generateChunkData, ChunkData } from './worldGen';
+import type { ChunkRequest, ChunkResponse } from './chunkWorker';
+
+// --- Streaming Chunk Loader ---
+// Keeps a small pool of generation workers busy with the chunks nearest to the
+// player. Requests that fall out of the wanted set are dropped from the queue,
+// and results for requests that went stale while in flight are discarded.
+
+export interface ChunkCoord {
+  cx: number;
+  cz: number;
+}
+
+export interface ChunkLoader {
+  // Replaces the wanted set. Already-loaded chunks should not be passed in.
+  request: (wanted: ChunkCoord[], focus: ChunkCoord) => void;
+  dispose: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker | null; // null = main-thread fallback
+  job: { id: number; key: string } | null;
+}
+
+const keyOf = (c: ChunkCoord) => `${c.cx},${c.cz}`;
+
+const defaultPoolSize = () => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+const spawnWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./chunkWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Chunk worker unavailable, generating on the main thread:', error);
+    return null;
+  }
+};
+
+export const createChunkLoader = (
+  seed: number,
+  onChunk: (chunk: ChunkData) => void,
+  poolSize = defaultPoolSize()
+): ChunkLoader => {
+  const queue = new Map<string, ChunkCoord>();
+  const inFlight = new Map<number, string>(); // request id -> chunk key
+  let wanted = new Set<string>();
+  let focus: ChunkCoord = { cx: 0, cz: 0 };
+  let nextId = 1;
+  let disposed = false;
+
+  const pool: PoolWorker[] = [];
+
+  const finish = (slot: PoolWorker, id: number, chunk: ChunkData) => {
+    const key = inFlight.get(id);
+    inFlight.delete(id);
+    slot.job = null;
+    if (!disposed && key && wanted.has(key)) onChunk(chunk);
+    pump();
+  };
+
+  // Nearest-first: a linear scan is fine for the few dozen chunks in view
+  const takeNearest = (): ChunkCoord | null => {
+    let best: ChunkCoord | null = null;
+    let bestDist = Infinity;
+    queue.forEach(c => {
+      const dist = (c.cx - focus.cx) ** 2 + (c.cz - focus.cz) ** 2;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = c;
+      }
+    });
+    if (best) queue.delete(keyOf(best));
+    return best;
+  };
+
+  const pump = () => {
+    if (disposed) return;
+    for (const slot of pool) {
+      if (slot.job) continue;
+      const coord = takeNearest();
+      if (!coord) return;
+
+      const id = nextId++;
+      const key = keyOf(coord);
+      slot.job = { id, key };
+      inFlight.set(id, key);
+
+      if (slot.worker) {
+        const message: ChunkRequest = { id, cx: coord.cx, cz: coord.cz, seed };
+        slot.worker.postMessage(message);
+      } else {
+        // Yield between chunks so the render loop keeps running
+        setTimeout(() => {
+          if (disposed) return;
+          finish(slot, id, generateChunkData(coord.cx, coord.cz, seed));
+        }, 0);
+      }
+    }
+  };
+
+  for (let i = 0; i < poolSize; i++) {
+    const slot: PoolWorker = { worker: spawnWorker(), job: null };
+    if (slot.worker) {
+      slot.worker.onmessage = (e: MessageEvent<ChunkResponse>) => finish(slot, e.data.id, e.data.chunk);
+      slot.worker.onerror = (e) => {
+        console.error('Chunk worker failed:', e.message);
+        // Fall back for this slot and retry its job on the main thread
+        slot.worker?.terminate();
+        slot.worker = null;
+        const job = slot.job;
+        slot.job = null;
+        if (job) {
+          inFlight.delete(job.id);
+          const [cx, cz] = job.key.split(',').map(Number);
+          if (wanted.has(job.key)) queue.set(job.key, { cx, cz });
+        }
+        pump();
+      };
+    }
+    pool.push(slot);
+  }
+
+  return {
+    request: (coords, nextFocus) => {
+      focus = nextFocus;
+      wanted = new Set(coords.map(keyOf));
+
+      // Drop queued requests that are no longer wanted
+      queue.forEach((_, key) => {
+        if (!wanted.has(key)) queue.delete(key);
+      });
+
+      const busy = new Set(inFlight.values());
+      coords.forEach(c => {
+        const key = keyOf(c);
+        if (!busy.has(key)) queue.set(key, c);
+      });
+      pump();
+    },
+    dispose: () => {
+      disposed = true;
+      queue.clear();
+      inFlight.clear();
+      pool.forEach(slot => slot.worker?.terminate());
+    },
+  };
+};
@@ -0,0 +1,24 @@
+import { generateChunkData, ChunkData } from './worldGen';
+
+// --- Chunk Generation Worker ---
+// Runs generateChunkData off the main thread. One request in, one chunk out.
+
+export interface ChunkRequest {
+  id: number;
+  cx: number;
+  cz: number;
+  seed: number;
+}
+
+export interface ChunkResponse {
+  id: number;
+  chunk: ChunkData;
+}
+
+self.onmessage = (e: MessageEvent<ChunkRequest>) => {
+  const { id, cx, cz, seed } = e.data;
+  const chunk = generateChunkData(cx, cz, seed);
+  const response: ChunkResponse = { id, chunk };
+  // Hand the heightmap buffer over instead of copying it
+  self.postMessage(response, { transfer: [chunk.heights.buffer] });
+};
@@ -0,0 +1,143 @@
+import { ChunkData, WorldObject, CHUNK_SIZE } from './worldGen';
+
+// --- Player vs World Collision ---
+// Colliders are 2D footprints on the XZ plane with a top height, so small
+// objects can be stepped over and tall ones block movement.
+
+export const PLAYER_RADIUS = 0.35;
+export const STEP_HEIGHT = 0.4; // Anything lower than this above the feet is walked over
+
+export type Collider =
+  | { shape: 'circle'; x: number; z: number; radius: number; top: number }
+  | { shape: 'box'; x: number; z: number; halfX: number; halfZ: number; rotation: number; top: number };
+
+// Foliage the player walks through; roofs always rest on walls or posts that collide instead
+const PASSABLE: WorldObject['type'][] = ['grass', 'flower', 'reed', 'bush', 'cloud', 'roof'];
+
+// Footprints mirror the part templates in ChunkObjects.tsx (collectPartInstances)
+const colliderFor = (obj: WorldObject, ox: number, oz: number): Collider | null => {
+  if (PASSABLE.includes(obj.type)) return null;
+  const x = ox + obj.x;
+  const z = oz + obj.z;
+  const [sx, sy, sz] = obj.scale;
+
+  switch (obj.type) {
+    case 'tree':
+      return { shape: 'circle', x, z, radius: 0.25 * sx, top: obj.y + sy };
+    case 'palm':
+      return { shape: 'circle', x, z, radius: 0.15 * sx, top: obj.y + sy };
+    case 'mushroom':
+      return { shape: 'circle', x, z, radius: 0.3 * sx, top: obj.y + sy };
+    case 'crystal':
+      return { shape: 'circle', x, z, radius: 0.7 * sx, top: obj.y + sy };
+    case 'deadbush':
+      return { shape: 'circle', x, z, radius: 0.3, top: obj.y + 0.3 };
+    case 'cactus':
+      return { shape: 'box', x, z, halfX: 0.4 * sx, halfZ: 0.4 * sz, rotation: obj.rotation, top: obj.y + sy / 2 };
+    case 'rock':
+      // Dodecahedron of radius 0.8; the box sits slightly inside its silhouette
+      return { shape: 'box', x, z, halfX: 0.65 * sx, halfZ: 0.65 * sz, rotation: obj.rotation, top: obj.y + 0.8 * sy };
+    case 'ruins':
+      return { shape: 'box', x, z, halfX: sx / 2, halfZ: sz / 2, rotation: obj.rotation, top: obj.y + sy / 2 };
+    case 'block':
+      return { shape: 'box', x, z, halfX: sx / 2, halfZ: sz / 2, rotation: obj.rotation, top: obj.y + sy };
+    case 'pillar':
+      return { shape: 'circle', x, z, radius: 0.5 * Math.max(sx, sz), top: obj.y + sy };
+    default:
+      return null;
+  }
+};
+
+const colliderCache = new WeakMap<ChunkData, Collider[]>();
+
+// Colliders are derived data, built once per chunk object on first use
+export const getChunkColliders = (chunk: ChunkData): Collider[] => {
+  let colliders = colliderCache.get(chunk);
+  if (!colliders) {
+    const ox = chunk.x * CHUNK_SIZE;
+    const oz = chunk.z * CHUNK_SIZE;
+    colliders = [];
+    for (const obj of chunk.objects) {
+      const c = colliderFor(obj, ox, oz);
+      if (c) colliders.push(c);
+    }
+    colliderCache.set(chunk, colliders);
+  }
+  return colliders;
+};
+
+// Returns the offset that moves a circle at (px, pz) out of the collider, or null if not touching
+const penetration = (c: Collider, px: number, pz: number, radius: number): [number, number] | null => {
+  if (c.shape === 'circle') {
+    const dx = px - c.x;
+    const dz = pz - c.z;
+    const minDist = c.radius + radius;
+    const distSq = dx * dx + dz * dz;
+    if (distSq >= minDist * minDist) return null;
+    const dist = Math.sqrt(distSq);
+    if (dist < 1e-6) return [minDist, 0];
+    const push = minDist - dist;
+    return [(dx / dist) * push, (dz / dist) * push];
+  }
+
+  // Work in the box's local frame (inverse of the Y rotation used when rendering)
+  const cos = Math.cos(c.rotation);
+  const sin = Math.sin(c.rotation);
+  const dx = px - c.x;
+  const dz = pz - c.z;
+  const lx = dx * cos - dz * sin;
+  const lz = dx * sin + dz * cos;
+
+  const cx = Math.max(-c.halfX, Math.min(c.halfX, lx));
+  const cz = Math.max(-c.halfZ, Math.min(c.halfZ, lz));
+  const nx = lx - cx;
+  const nz = lz - cz;
+  const distSq = nx * nx + nz * nz;
+
+  let pushX: number;
+  let pushZ: number;
+  if (distSq > 1e-12) {
+    if (distSq >= radius * radius) return null;
+    const dist = Math.sqrt(distSq);
+    const push = radius - dist;
+    pushX = (nx / dist) * push;
+    pushZ = (nz / dist) * push;
+  } else {
+    // Centre is inside the box: leave through the nearest face
+    const exitX = c.halfX - Math.abs(lx) + radius;
+    const exitZ = c.halfZ - Math.abs(lz) + radius;
+    if (exitX < exitZ) { pushX = Math.sign(lx || 1) * exitX; pushZ = 0; }
+    else { pushX = 0; pushZ = Math.sign(lz || 1) * exitZ; }
+  }
+
+  // Back to world space
+  return [pushX * cos + pushZ * sin, -pushX * sin + pushZ * cos];
+};
+
+// Pushes the target position out of every blocking collider. Only the component
+// of movement into a collider is removed, so the player slides along surfaces.
+export const resolveCollisions = (
+  colliders: Collider[],
+  x: number,
+  z: number,
+  feetY: number,
+  radius = PLAYER_RADIUS
+): [number, number] => {
+  let px = x;
+  let pz = z;
+  // A few passes settle corners where two colliders overlap
+  for (let pass = 0; pass < 3; pass++) {
+    let moved = false;
+    for (const c of colliders) {
+      if (c.top < feetY + STEP_HEIGHT) continue;
+      const p = penetration(c, px, pz, radius);
+      if (p) {
+        px += p[0];
+        pz += p[1];
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return [px, pz];
+};
@@ -0,0 +1,14 @@
+// --- File Downloads ---
+// Saves a blob through a temporary link. Revoking the URL straight after
+// click() can cancel the download in some browsers, so it waits a moment.
+
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,146 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider, parseProfile } from './aiProvider';
+import { NonRetryableError } from './retry';
+
+// --- Gemini Backend ---
+
+const TEXTURE_MODEL = 'gemini-2.5-flash-image';
+const PROFILE_MODEL = 'gemini-2.5-flash';
+
+const getClient = () => {
+  if (!process.env.API_KEY) {
+    throw new NonRetryableError("No API Key");
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Optimized Prompt for Blocky Character Mapping (sheet layout, see skinFormats)
+// We need: four view columns over a strip with the top and bottom views
+// Vertical layout of each view: Top=Head, Mid=Body, Bottom=Legs
+const buildTexturePrompt = (userPrompt: string) => `
+  Generate a texture sheet for a Minecraft-style blocky character.
+  Subject: ${userPrompt}.
+  
+  CRITICAL FORMAT REQUIREMENTS:
+  1. The image must be a square aspect ratio.
+  2. The TOP 75% of the image holds FOUR EQUAL columns, each a full-height
+     view of the same character, standing upright:
+     - Column 1: FRONT view.
+     - Column 2: BACK view.
+     - Column 3: the character's LEFT side in profile, facing the left edge of the image.
+     - Column 4: the character's RIGHT side in profile, facing the right edge of the image.
+     Inside each column, split the figure into three zones (approximate):
+     - TOP 25%: Head/Face.
+     - MIDDLE 35%: Torso and Arms.
+     - BOTTOM 40%: Legs/Feet.
+  3. The BOTTOM 25% of the image holds TWO EQUAL cells:
+     - LEFT cell: TOP view, looking straight down on the head and shoulders,
+       face pointing towards the bottom of the image.
+     - RIGHT cell: BOTTOM view, looking straight up at the soles of the feet
+       and the hands, toes pointing towards the top of the image.
+  4. Keep every view the same height and scale, and the views apart from each other.
+  
+  Style:
+  - Vibrant, high-contrast pixel art or detailed cartoon style.
+  - Symmetrical standing pose.
+  - No background (or solid white/grey). 
+  - Fill the space efficiently.
+`;
+
+// DrawingPad strokes sit on a transparent canvas (and default to white), so
+// flatten them onto the same dark backdrop the user drew against.
+const flattenSketch = (dataUrl: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas unavailable"));
+        return;
+      }
+      ctx.fillStyle = '#334155';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error("Could not read sketch"));
+    img.src = dataUrl;
+  });
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  textureFormat: 'sheet',
+
+  generateTexture: async ({ prompt, sketchData, feedback }) => {
+    const ai = getClient();
+    let texturePrompt = buildTexturePrompt(prompt);
+    if (feedback?.length) {
+      texturePrompt += `
+  Your previous attempt did not follow the layout: ${feedback.join('; ')}.
+  Fix this. Front, back, left side and right side views fill four equal
+  columns in the top 75%, standing upright with the head at the top; the
+  top and bottom views sit side by side in the bottom 25%.
+`;
+    }
+
+    // Sketch mode: send the drawing first so the text can refer to it
+    const parts: ({ text: string } | { inlineData: { mimeType: string; data: string } })[] = [];
+    if (sketchData) {
+      const flattened = await flattenSketch(sketchData);
+      parts.push({ inlineData: { mimeType: 'image/png', data: flattened.split(',')[1] } });
+      parts.push({ text: `${texturePrompt}
+  The attached image is the user's rough sketch of this character.
+  Follow its silhouette, proportions and colour choices closely,
+  while still respecting the view layout described above.
+` });
+    } else {
+      parts.push({ text: texturePrompt });
+    }
+
+    const imageResponse = await ai.models.generateContent({
+      model: TEXTURE_MODEL,
+      contents: { parts }
+    });
+
+    const responseParts = imageResponse.candidates?.[0]?.content?.parts;
+    if (responseParts) {
+      for (const part of responseParts) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+    }
+    throw new Error("Failed to generate texture");
+  },
+
+  generateProfile: async (prompt) => {
+    const ai = getClient();
+    const statsResponse = await ai.models.generateContent({
+      model: PROFILE_MODEL,
+      contents: `Generate RPG stats and a cool fantasy/sci-fi name for this character: "${prompt}".
+                 Return valid JSON with fields: 
+                 - name (string)
+                 - description (string, max 120 chars)
+                 - stats { strength (1-10), speed (1-10), magic (1-10) }.
+                 Do not use Markdown.`,
+      config: {
+        responseMimeType: "application/json"
+      }
+    });
+
+    const text = statsResponse.text;
+    if (!text) throw new Error("No analysis returned");
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Malformed profile JSON");
+    }
+    return parseProfile(data);
+  },
+};
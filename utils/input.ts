@@ -0,0 +1,226 @@
+import { readLocal, writeLocal } from './storage';
+
+// --- Player Input ---
+// Merges the keyboard, the Gamepad API and the on-screen touch controls into
+// one frame of input for the Player: an analog move vector, an analog look
+// vector for the camera orbit, held sprint and one-shot actions.
+
+export type InputAction = 'forward' | 'back' | 'left' | 'right' | 'sprint' | 'jump' | 'strike' | 'cast' | 'camera';
+
+// Actions that fire once per press rather than while held
+export type TriggerAction = 'jump' | 'strike' | 'cast' | 'camera';
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'forward', label: 'Move Forward' },
+  { action: 'back', label: 'Move Back' },
+  { action: 'left', label: 'Move Left' },
+  { action: 'right', label: 'Move Right' },
+  { action: 'sprint', label: 'Sprint' },
+  { action: 'jump', label: 'Jump / Swim Up' },
+  { action: 'strike', label: 'Strike' },
+  { action: 'cast', label: 'Cast Light' },
+  { action: 'camera', label: 'Switch Camera' },
+];
+
+const TRIGGERS: TriggerAction[] = ['jump', 'strike', 'cast', 'camera'];
+
+// KeyboardEvent.code values per action, up to BINDING_SLOTS each
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const BINDING_SLOTS = 2;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  forward: ['KeyW', 'ArrowUp'],
+  back: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  sprint: ['ShiftLeft', 'ShiftRight'],
+  jump: ['Space'],
+  strike: ['KeyE'],
+  cast: ['KeyQ'],
+  camera: ['KeyC'],
+};
+
+// Standard-mapping gamepad buttons (A, B, X, Y = 0-3, LT = 6, View = 8, L3 = 10)
+const GAMEPAD_BUTTONS: Partial<Record<InputAction, number[]>> = {
+  sprint: [6, 10],
+  jump: [0],
+  strike: [2],
+  cast: [3],
+  camera: [8],
+};
+
+const STICK_DEADZONE = 0.15;
+
+export interface InputFrame {
+  moveX: number; // -1 (left) to 1 (right)
+  moveY: number; // -1 (back) to 1 (forward); the vector's length is at most 1
+  lookX: number; // Orbit rate, positive turns the view right
+  lookY: number; // Positive tilts the view up
+  sprint: boolean;
+  triggered: Set<TriggerAction>; // Pressed since the previous poll
+}
+
+export type TouchStick = 'move' | 'look';
+
+export interface InputManager {
+  // Attaches the keyboard listeners; returns the detach function
+  connect: () => () => void;
+  poll: () => InputFrame;
+  setBindings: (bindings: KeyBindings) => void;
+  setTouchStick: (stick: TouchStick, x: number, y: number) => void;
+  setTouchButton: (action: 'sprint' | TriggerAction, down: boolean) => void;
+}
+
+const BINDINGS_KEY = 'keyBindings';
+
+const isBindingList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= BINDING_SLOTS && value.every(code => typeof code === 'string');
+
+// Stored bindings merged over the defaults; anything malformed falls back per action
+export const loadBindings = (): KeyBindings => {
+  const bindings = { ...DEFAULT_BINDINGS };
+  const stored = readLocal(BINDINGS_KEY);
+  if (stored && typeof stored === 'object') {
+    for (const { action } of INPUT_ACTIONS) {
+      const codes = (stored as Record<string, unknown>)[action];
+      if (isBindingList(codes)) bindings[action] = codes;
+    }
+  }
+  return bindings;
+};
+
+export const saveBindings = (bindings: KeyBindings) => writeLocal(BINDINGS_KEY, bindings);
+
+// Binds a key to one slot of an action, taking it away from any other action
+export const rebind = (bindings: KeyBindings, action: InputAction, slot: number, code: string): KeyBindings => {
+  const next = {} as KeyBindings;
+  for (const { action: other } of INPUT_ACTIONS) {
+    next[other] = bindings[other].filter(existing => existing !== code);
+  }
+  const codes = [...bindings[action]];
+  codes[slot] = code;
+  next[action] = codes.filter((existing, i) => existing && (existing !== code || i === slot));
+  return next;
+};
+
+// Short on-screen name for a KeyboardEvent.code
+export const keyLabel = (code: string | undefined): string => {
+  if (!code) return '—';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  if (arrows[code]) return arrows[code];
+  return code.replace(/(Left|Right)$/, '') || code;
+};
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const applyDeadzone = (value: number) => (Math.abs(value) < STICK_DEADZONE ? 0 : value);
+
+// Scales a vector down to unit length when it is longer
+const clampLength = (x: number, y: number): [number, number] => {
+  const length = Math.hypot(x, y);
+  return length > 1 ? [x / length, y / length] : [x, y];
+};
+
+const readGamepad = (): Gamepad | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  for (const pad of navigator.getGamepads()) {
+    if (pad?.connected) return pad;
+  }
+  return null;
+};
+
+export const createInputManager = (initialBindings: KeyBindings): InputManager => {
+  let bindings = initialBindings;
+  const keysDown = new Set<string>();
+  const triggered = new Set<TriggerAction>();
+  const touchSticks: Record<TouchStick, [number, number]> = { move: [0, 0], look: [0, 0] };
+  const touchHeld = new Set<'sprint' | TriggerAction>();
+  let padPressed: boolean[] = [];
+
+  const actionsFor = (code: string) => INPUT_ACTIONS.filter(({ action }) => bindings[action].includes(code)).map(({ action }) => action);
+  const keyHeld = (action: InputAction) => bindings[action].some(code => keysDown.has(code));
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isEditable(e.target)) return;
+    const actions = actionsFor(e.code);
+    if (!actions.length) return;
+    // Stops Space from clicking a focused HUD button, arrows from scrolling
+    e.preventDefault();
+    keysDown.add(e.code);
+    if (e.repeat) return;
+    for (const action of actions) {
+      if ((TRIGGERS as InputAction[]).includes(action)) triggered.add(action as TriggerAction);
+    }
+  };
+  const onKeyUp = (e: KeyboardEvent) => { keysDown.delete(e.code); };
+  // Keys released while the window is unfocused never send keyup
+  const onBlur = () => keysDown.clear();
+
+  const connect = () => {
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      keysDown.clear();
+    };
+  };
+
+  const poll = (): InputFrame => {
+    let moveX = (keyHeld('right') ? 1 : 0) - (keyHeld('left') ? 1 : 0);
+    let moveY = (keyHeld('forward') ? 1 : 0) - (keyHeld('back') ? 1 : 0);
+    let lookX = 0;
+    let lookY = 0;
+    let sprint = keyHeld('sprint') || touchHeld.has('sprint');
+
+    const pad = readGamepad();
+    if (pad) {
+      // Stick Y axes point down
+      moveX += applyDeadzone(pad.axes[0] ?? 0);
+      moveY -= applyDeadzone(pad.axes[1] ?? 0);
+      lookX += applyDeadzone(pad.axes[2] ?? 0);
+      lookY -= applyDeadzone(pad.axes[3] ?? 0);
+
+      const pressed = pad.buttons.map(button => button.pressed);
+      for (const [action, indices] of Object.entries(GAMEPAD_BUTTONS) as [InputAction, number[]][]) {
+        for (const index of indices) {
+          if (!pressed[index]) continue;
+          if (action === 'sprint') sprint = true;
+          else if (!padPressed[index]) triggered.add(action as TriggerAction);
+        }
+      }
+      padPressed = pressed;
+    } else {
+      padPressed = [];
+    }
+
+    moveX += touchSticks.move[0];
+    moveY += touchSticks.move[1];
+    lookX += touchSticks.look[0];
+    lookY += touchSticks.look[1];
+
+    [moveX, moveY] = clampLength(moveX, moveY);
+    [lookX, lookY] = clampLength(lookX, lookY);
+    const frame = { moveX, moveY, lookX, lookY, sprint, triggered: new Set(triggered) };
+    triggered.clear();
+    return frame;
+  };
+
+  return {
+    connect,
+    poll,
+    setBindings: (next) => { bindings = next; },
+    setTouchStick: (stick, x, y) => { touchSticks[stick] = clampLength(x, y); },
+    setTouchButton: (action, down) => {
+      if (down && !touchHeld.has(action) && action !== 'sprint') triggered.add(action);
+      if (down) touchHeld.add(action);
+      else touchHeld.delete(action);
+    },
+  };
+};
@@ -0,0 +1,182 @@
+import type { AIProvider, CharacterProfile } from './aiProvider';
+import { seededRandom } from './worldGen';
+
+// --- Offline Backend ---
+// Deterministic stand-in for the AI: the same prompt always gives the same
+// skin and profile. No network and no API key needed.
+
+const hashString = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
+
+// Colour words we recognise in prompts, in the order they should be used
+const COLOR_WORDS: Record<string, string> = {
+  red: '#c1121f', crimson: '#9d0208', orange: '#f77f00', gold: '#ffb703', golden: '#ffb703',
+  yellow: '#ffd60a', green: '#2a9d8f', emerald: '#2d6a4f', teal: '#118ab2', cyan: '#00b4d8',
+  blue: '#1d4ed8', navy: '#1e3a8a', purple: '#7b2cbf', violet: '#9d4edd', pink: '#ff70a6',
+  white: '#f8f9fa', silver: '#adb5bd', grey: '#6c757d', gray: '#6c757d', black: '#212529',
+  dark: '#2b2d42', brown: '#7f5539', neon: '#39ff14',
+};
+
+const SKIN_TONES = ['#f1c27d', '#e0ac69', '#c68642', '#8d5524', '#ffdbac'];
+
+const hsl = (h: number, s: number, l: number) => `hsl(${Math.round(h)}, ${Math.round(s)}%, ${Math.round(l)}%)`;
+
+interface Palette {
+  skin: string;
+  hair: string;
+  primary: string;   // Shirt / armour
+  secondary: string; // Pants
+  accent: string;    // Belt, emblem, boots trim
+  eyes: string;
+}
+
+const buildPalette = (prompt: string, seed: number): Palette => {
+  const words = prompt.toLowerCase().match(/[a-z]+/g) || [];
+  const named = words.map(w => COLOR_WORDS[w]).filter((c): c is string => !!c);
+  const rand = (n: number) => seededRandom(seed + n);
+  const hue = rand(1) * 360;
+
+  const isRobot = words.some(w => ['robot', 'android', 'mech', 'cyborg'].includes(w));
+  const isSlime = words.some(w => ['slime', 'blob', 'ghost'].includes(w));
+
+  return {
+    skin: isRobot ? '#adb5bd' : isSlime ? (named[0] || hsl(hue, 70, 60)) : SKIN_TONES[Math.floor(rand(2) * SKIN_TONES.length)],
+    hair: hsl(rand(3) * 360, 40 + rand(4) * 40, 15 + rand(5) * 30),
+    primary: named[0] || hsl(hue, 60 + rand(6) * 30, 40 + rand(7) * 15),
+    secondary: named[1] || hsl((hue + 180 + rand(8) * 60) % 360, 35, 25 + rand(9) * 15),
+    accent: named[2] || hsl((hue + 40) % 360, 90, 60),
+    eyes: words.some(w => ['glowing', 'neon', 'cyber', 'cyberpunk'].includes(w)) ? '#39ff14' : '#1b263b',
+  };
+};
+
+// Pixel-art skin in the sheet layout BlockyCharacter expects (see skinFormats):
+// four 20-unit view columns over a 60-unit figure, then the top and bottom
+// views in the 20-unit strip below. Figure rows: head 0-15, torso/arms 15-36,
+// legs 36-60; elbows at 25, boot tops at 53.
+const COL = 20;
+const FIG = 60;
+const STRIP = 20;
+
+const buildTextureSvg = (palette: Palette, seed: number) => {
+  const rects: string[] = [];
+  const rect = (x: number, y: number, w: number, h: number, fill: string) => {
+    rects.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${fill}"/>`);
+  };
+  const hasHood = seededRandom(seed + 20) > 0.6;
+  const hasEmblem = seededRandom(seed + 21) > 0.3;
+  const headCover = hasHood ? palette.primary : palette.hair;
+  const boots = '#3d2b1f';
+
+  // Body below the head, shared by every view: arms, belt and legs
+  const body = (x0: number, arms: [number, number][], isFront: boolean) => {
+    rect(x0, 15, COL, 21, palette.primary);
+    arms.forEach(([x, w]) => {
+      rect(x0 + x, 25, w, 11, palette.skin); // Bare forearms below the elbow
+      rect(x0 + x, 33, w, 3, palette.accent); // Gloves / cuffs
+    });
+    if (arms.length === 2) rect(x0 + 6, 33, 8, 2, palette.accent); // Belt
+    if (isFront && hasEmblem) rect(x0 + 8.5, 19, 3, 3, palette.accent);
+    rect(x0, 36, COL, FIG - 36, palette.secondary);
+    rect(x0, 53, COL, FIG - 53, boots);
+    rect(x0, 53, COL, 1, palette.accent);
+  };
+
+  // Front: face, with a hood framing it if there is one
+  rect(0, 0, COL, 15, palette.skin);
+  rect(0, 0, COL, hasHood ? 4 : 3, headCover);
+  if (hasHood) { rect(0, 0, 6, 15, palette.primary); rect(14, 0, 6, 15, palette.primary); }
+  rect(6.5, 8, 2, 1.5, palette.eyes);
+  rect(11.5, 8, 2, 1.5, palette.eyes);
+  rect(8.5, 12, 3, 0.75, '#6b2737');
+  body(0, [[0, 6], [14, 6]], true);
+
+  // Back: hair or hood all over the head
+  rect(COL, 0, COL, 15, headCover);
+  body(COL, [[0, 6], [14, 6]], false);
+
+  // Sides: the face half of the profile points towards the character's front
+  ([[2, true], [3, false]] as const).forEach(([column, facesLeft]) => {
+    const x0 = column * COL;
+    const frontX = facesLeft ? x0 + 5 : x0 + 10;
+    rect(x0, 0, COL, 15, headCover);
+    if (!hasHood) rect(frontX, 3, 5, 12, palette.skin);
+    else rect(frontX + (facesLeft ? 0 : 2), 4, 3, 11, palette.skin);
+    rect(facesLeft ? x0 + 6 : x0 + 12.5, 8, 1.5, 1.5, palette.eyes);
+    body(x0, [[8, 4]], false);
+  });
+
+  // Top view: shoulders around the crown of the head
+  rect(0, FIG, COL * 2, STRIP, palette.primary);
+  rect(10, FIG, 20, STRIP, headCover);
+  // Bottom view: boot soles and hands
+  rect(COL * 2, FIG, COL * 2, STRIP, palette.secondary);
+  rect(COL * 2 + 11, FIG + 5, 18, 10, boots);
+  rect(COL * 2 + 3, FIG + 6, 7, 8, palette.skin);
+  rect(COL * 2 + 30, FIG + 6, 7, 8, palette.skin);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 ${COL * 4} ${FIG + STRIP}" shape-rendering="crispEdges">${rects.join('')}</svg>`;
+};
+
+const NAME_START = ['Kor', 'Zyl', 'Ae', 'Vor', 'Mira', 'Tal', 'Rho', 'Xen', 'Ily', 'Bram', 'Sae', 'Dru'];
+const NAME_END = ['dran', 'wyn', 'thas', 'ra', 'vex', 'lith', 'mor', 'ion', 'sha', 'gar', 'eth', 'nox'];
+const TITLES = ['the Wanderer', 'of the Ashen Vale', 'Starborn', 'the Unbroken', 'of the Last Light', 'the Quiet Storm'];
+
+// Keyword hints nudge the stats so the profile still feels related to the prompt
+const STAT_HINTS: { words: string[]; stat: keyof CharacterProfile['stats']; bonus: number }[] = [
+  { words: ['knight', 'paladin', 'warrior', 'giant', 'strong', 'golem', 'barbarian', 'armor', 'armour'], stat: 'strength', bonus: 3 },
+  { words: ['ninja', 'assassin', 'swift', 'fast', 'rogue', 'samurai', 'thief', 'scout'], stat: 'speed', bonus: 3 },
+  { words: ['wizard', 'mage', 'witch', 'magic', 'sorcerer', 'glowing', 'arcane', 'druid'], stat: 'magic', bonus: 3 },
+];
+
+const clampStat = (v: number) => Math.max(1, Math.min(10, Math.round(v)));
+
+const buildProfile = (prompt: string, seed: number): CharacterProfile => {
+  const rand = (n: number) => seededRandom(seed + 100 + n);
+  const pick = <T>(list: T[], n: number) => list[Math.floor(rand(n) * list.length)];
+
+  const words = prompt.toLowerCase().match(/[a-z]+/g) || [];
+  const stats = {
+    strength: 3 + rand(1) * 4,
+    speed: 3 + rand(2) * 4,
+    magic: 3 + rand(3) * 4,
+  };
+  STAT_HINTS.forEach(hint => {
+    if (words.some(w => hint.words.includes(w))) stats[hint.stat] += hint.bonus;
+  });
+
+  const name = `${pick(NAME_START, 4)}${pick(NAME_END, 5)} ${pick(TITLES, 6)}`;
+  // Drop the creator's "<Style> style." prefix and any leading article
+  const subject = prompt.replace(/^[^.]*style\.\s*/i, '').replace(/^(a|an|the)\s+/i, '').trim() || 'traveler';
+  const description = `A ${subject.charAt(0).toLowerCase()}${subject.slice(1).replace(/\.$/, '')}.`;
+
+  return {
+    name,
+    description: description.length > 120 ? `${description.slice(0, 117)}...` : description,
+    stats: {
+      strength: clampStat(stats.strength),
+      speed: clampStat(stats.speed),
+      magic: clampStat(stats.magic),
+    },
+  };
+};
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Offline',
+  textureFormat: 'sheet',
+  fullBleed: true,
+
+  generateTexture: async ({ prompt, sketchData }) => {
+    // The sketch only perturbs the seed; the procedural skin cannot trace it
+    const seed = hashString(prompt + (sketchData ? sketchData.length : ''));
+    const svg = buildTextureSvg(buildPalette(prompt, seed), seed);
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  },
+
+  generateProfile: async (prompt) => buildProfile(prompt, hashString(prompt)),
+};
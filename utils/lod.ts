@@ -0,0 +1,35 @@
+import { CHUNK_SIZE } from './worldGen';
+
+// --- View Distance & Level of Detail ---
+// Chunks are bucketed by ring distance (Chebyshev, in chunks) from the player:
+//   near: full objects, shadows, particles
+//   mid:  simplified vegetation, no small decor, no shadows
+//   far:  coarse ground and landmarks only
+
+export type LodTier = 'near' | 'mid' | 'far';
+
+export const VIEW_DISTANCES = [2, 3, 4, 6, 8];
+export const DEFAULT_VIEW_DISTANCE = 3;
+
+const NEAR_RING = 2;
+const MID_RING = 4;
+const MIN_SHADOW_EXTENT = 50; // Never less than the fixed frustum used before view distances
+
+export const getLodTier = (ring: number): LodTier => {
+  if (ring <= NEAR_RING) return 'near';
+  if (ring <= MID_RING) return 'mid';
+  return 'far';
+};
+
+// Fog starts well inside the view and fully hides the outer edge of the last ring
+export const getFogRange = (viewDistance: number): [number, number] => {
+  const far = (viewDistance + 0.5) * CHUNK_SIZE;
+  return [Math.max(10, far * 0.25), far];
+};
+
+// Half-size of the sun's shadow camera, which follows the player. Shadows only
+// matter up close, so this grows with the view but is capped to keep shadow-map
+// texels sharp.
+export const getShadowExtent = (viewDistance: number) => {
+  return Math.max(MIN_SHADOW_EXTENT, Math.min(viewDistance, NEAR_RING + 1) * CHUNK_SIZE);
+};
@@ -0,0 +1,95 @@
+// --- Seeded 2D Simplex Noise ---
+// Based on Stefan Gustavson's reference implementation.
+
+export type Noise2D = (x: number, y: number) => number;
+
+export interface FbmOptions {
+  octaves?: number;
+  frequency?: number;
+  lacunarity?: number; // Frequency multiplier per octave
+  gain?: number;       // Amplitude multiplier per octave
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+const GRAD2: [number, number][] = [
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+];
+
+// Small PRNG (mulberry32) so the permutation only depends on the seed
+const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Returns noise in roughly [-1, 1]
+export const createNoise2D = (seed: number): Noise2D => {
+  const random = mulberry32(seed);
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = p[i]; p[i] = p[j]; p[j] = tmp;
+  }
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+
+  const corner = (gi: number, x: number, y: number) => {
+    let t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    t *= t;
+    const g = GRAD2[gi];
+    return t * t * (g[0] * x + g[1] * y);
+  };
+
+  return (xin: number, yin: number) => {
+    // Skew input space to find the simplex cell
+    const s = (xin + yin) * F2;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const t = (i + j) * G2;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+
+    // Which of the two triangles are we in?
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const n0 = corner(perm[ii + perm[jj]] & 7, x0, y0);
+    const n1 = corner(perm[ii + i1 + perm[jj + j1]] & 7, x1, y1);
+    const n2 = corner(perm[ii + 1 + perm[jj + 1]] & 7, x2, y2);
+
+    return 70 * (n0 + n1 + n2);
+  };
+};
+
+// Fractal Brownian Motion: sums octaves of noise. Output normalized to [-1, 1].
+export const fbm2D = (noise: Noise2D, x: number, y: number, options: FbmOptions = {}) => {
+  const { octaves = 4, frequency = 1, lacunarity = 2, gain = 0.5 } = options;
+  let sum = 0;
+  let amp = 1;
+  let freq = frequency;
+  let norm = 0;
+  for (let o = 0; o < octaves; o++) {
+    sum += noise(x * freq, y * freq) * amp;
+    norm += amp;
+    amp *= gain;
+    freq *= lacunarity;
+  }
+  return sum / norm;
+};
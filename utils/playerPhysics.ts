@@ -0,0 +1,56 @@
+// --- Character Physics ---
+// Vertical motion for the player: gravity, jumping and floating in deep water.
+// Horizontal movement stays in the Player (collision resolves the XZ plane);
+// this only decides where the feet are each frame, against whatever ground
+// height it is given, so it works on any terrain the world generates.
+
+export const GRAVITY = 24;           // Units per second squared
+export const JUMP_VELOCITY = 8;      // Apex ~1.3 units, enough to hop onto rocks
+export const MAX_FALL_SPEED = 30;
+export const SNAP_DISTANCE = 0.5;    // Ground this close below the feet is followed, not fallen to
+export const MAX_STEP = 1 / 20;      // Longest simulated frame, so a stalled tab cannot tunnel
+
+export const FLOAT_DEPTH = 1.1;      // Feet below the surface while swimming (water at chest height)
+export const SURFACE_MARGIN = 0.1;   // Feet this far above the float line are out of the water
+export const BUOYANCY = 20;          // Spring towards the float line
+export const WATER_DRAG = 6;
+export const SWIM_KICK_VELOCITY = 4; // Space in water: a short kick up through the surface
+export const SWIM_SPEED_FACTOR = 0.5;
+export const SWIM_BOB = 0.06;        // Visual bob amplitude at the surface
+
+export interface BodyState {
+  y: number;  // Feet height
+  vy: number; // Units per second, up is positive
+  grounded: boolean;
+  swimming: boolean;
+}
+
+export const createBody = (y: number): BodyState => ({ y, vy: 0, grounded: true, swimming: false });
+
+// Advances the body by dt seconds. waterY is the surface height over this
+// point, or null where there is no water.
+export const stepBody = (body: BodyState, dt: number, groundY: number, waterY: number | null, jump: boolean) => {
+  dt = Math.min(dt, MAX_STEP);
+  const floatY = waterY === null ? -Infinity : waterY - FLOAT_DEPTH;
+  body.swimming = groundY < floatY && body.y <= floatY + SURFACE_MARGIN;
+
+  if (body.swimming) {
+    if (jump) body.vy = SWIM_KICK_VELOCITY;
+    // Damped spring: a dive overshoots and settles back at the surface
+    body.vy += ((floatY - body.y) * BUOYANCY - body.vy * WATER_DRAG) * dt;
+  } else {
+    if (jump && body.grounded) body.vy = JUMP_VELOCITY;
+    body.vy = Math.max(-MAX_FALL_SPEED, body.vy - GRAVITY * dt);
+  }
+  body.y += body.vy * dt;
+
+  // Walking downhill keeps the feet on the slope instead of hopping off every crest
+  const snap = body.grounded && !body.swimming && body.vy <= 0 && body.y - groundY < SNAP_DISTANCE;
+  if (body.y <= groundY || snap) {
+    body.y = groundY;
+    body.vy = 0;
+    body.grounded = true;
+  } else {
+    body.grounded = false;
+  }
+};
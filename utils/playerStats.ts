@@ -0,0 +1,147 @@
+import type { CharacterData } from '../App';
+import { ChunkData, WorldObject, CHUNK_SIZE } from './worldGen';
+
+// --- Stat-Driven Abilities ---
+// The hero's 1-10 stats turn into concrete gameplay numbers here:
+// speed -> movement and stamina, strength -> breaking objects,
+// magic -> mana and the light orb spell.
+
+export interface Abilities {
+  walkSpeed: number;        // World units per frame
+  sprintMultiplier: number;
+  maxStamina: number;
+  staminaRegen: number;     // Per second
+  strikeForce: number;      // Damage dealt per strike
+  maxMana: number;
+  manaRegen: number;        // Per second
+  orbDuration: number;      // Seconds
+  orbRange: number;         // Light distance
+  orbIntensity: number;
+  crystalGlow: number;      // Emissive multiplier for crystals lit by the orb
+}
+
+// Changing values the HUD shows; mutated every frame by the Player
+export interface Vitals {
+  stamina: number;
+  mana: number;
+  orbTimeLeft: number;
+  exhausted: boolean; // Sprint locked until stamina recovers
+}
+
+export const BASE_WALK_SPEED = 0.18;   // Units per frame at speed 5, the original pace
+export const SPRINT_DRAIN = 30;        // Stamina per second
+export const EXHAUSTION_RECOVERY = 0.3; // Fraction of max stamina needed to sprint again
+export const ORB_COST = 25;
+export const STRIKE_REACH = 1.2;       // Beyond the player's and the object's radius
+export const STRIKE_COOLDOWN = 0.35;   // Seconds
+
+export const getAbilities = (stats: CharacterData['stats']): Abilities => ({
+  walkSpeed: BASE_WALK_SPEED + (stats.speed - 5) * 0.012,
+  sprintMultiplier: 1.6,
+  maxStamina: 60 + stats.speed * 8,
+  staminaRegen: 8 + stats.speed * 2,
+  strikeForce: stats.strength,
+  maxMana: stats.magic * 10,
+  manaRegen: 1 + stats.magic * 0.4,
+  orbDuration: 10 + stats.magic * 4,
+  orbRange: 6 + stats.magic * 1.2,
+  orbIntensity: 1 + stats.magic * 0.25,
+  crystalGlow: 1 + stats.magic * 0.3,
+});
+
+export const initialVitals = (abilities: Abilities): Vitals => ({
+  stamina: abilities.maxStamina,
+  mana: abilities.maxMana,
+  orbTimeLeft: 0,
+  exhausted: false,
+});
+
+// Advances stamina, mana and the orb timer by dt seconds
+export const tickVitals = (vitals: Vitals, abilities: Abilities, dt: number, sprinting: boolean) => {
+  if (sprinting) {
+    vitals.stamina = Math.max(0, vitals.stamina - SPRINT_DRAIN * dt);
+    if (vitals.stamina === 0) vitals.exhausted = true;
+  } else {
+    vitals.stamina = Math.min(abilities.maxStamina, vitals.stamina + abilities.staminaRegen * dt);
+    if (vitals.stamina >= abilities.maxStamina * EXHAUSTION_RECOVERY) vitals.exhausted = false;
+  }
+  vitals.mana = Math.min(abilities.maxMana, vitals.mana + abilities.manaRegen * dt);
+  vitals.orbTimeLeft = Math.max(0, vitals.orbTimeLeft - dt);
+};
+
+// Spends mana on a light orb; returns the message to show
+export const castOrb = (vitals: Vitals, abilities: Abilities): string => {
+  if (abilities.maxMana < ORB_COST) return "Not enough magic to cast";
+  if (vitals.mana < ORB_COST) return `Need ${ORB_COST} mana`;
+  vitals.mana -= ORB_COST;
+  vitals.orbTimeLeft = abilities.orbDuration;
+  return "Light orb summoned";
+};
+
+// --- Breakable Objects ---
+
+interface Breakable {
+  toughness: number;   // Damage to break at scale 1
+  minStrength: number; // Weaker heroes cannot damage it at all
+  radius: (scale: WorldObject['scale']) => number; // Footprint, as in the collider
+}
+
+export const BREAKABLES: Partial<Record<WorldObject['type'], Breakable>> = {
+  deadbush: { toughness: 3, minStrength: 1, radius: () => 0.3 },
+  rock: { toughness: 15, minStrength: 4, radius: ([sx]) => 0.65 * sx },
+};
+
+// Objects are regenerated identically from the seed, so their position
+// identifies them across chunk evictions and saves
+export const objectKey = (obj: WorldObject) => `${obj.type}:${obj.x.toFixed(2)},${obj.z.toFixed(2)}`;
+
+export const strikesToBreak = (obj: WorldObject, strikeForce: number) => {
+  const def = BREAKABLES[obj.type];
+  if (!def) return Infinity;
+  const size = (obj.scale[0] + obj.scale[2]) / 2;
+  return Math.max(1, Math.ceil((def.toughness * size) / Math.max(1, strikeForce)));
+};
+
+export interface BreakTarget {
+  chunk: ChunkData;
+  obj: WorldObject;
+  key: string; // `${chunk.id}/${objectKey(obj)}`
+}
+
+// Nearest breakable object in front of the player and within reach
+export const findBreakTarget = (
+  chunks: ChunkData[],
+  x: number,
+  z: number,
+  facing: number, // Yaw, as on the player group
+  playerRadius: number
+): BreakTarget | null => {
+  const dirX = Math.sin(facing);
+  const dirZ = Math.cos(facing);
+  let best: BreakTarget | null = null;
+  let bestGap = Infinity;
+
+  for (const chunk of chunks) {
+    for (const obj of chunk.objects) {
+      const def = BREAKABLES[obj.type];
+      if (!def) continue;
+      const dx = chunk.x * CHUNK_SIZE + obj.x - x;
+      const dz = chunk.z * CHUNK_SIZE + obj.z - z;
+      const dist = Math.hypot(dx, dz);
+      const gap = dist - playerRadius - def.radius(obj.scale);
+      if (gap > STRIKE_REACH || gap >= bestGap) continue;
+      // Roughly ahead; anything already touching the player counts
+      if (gap > 0.1 && (dx * dirX + dz * dirZ) / dist < 0.5) continue;
+      best = { chunk, obj, key: `${chunk.id}/${objectKey(obj)}` };
+      bestGap = gap;
+    }
+  }
+  return best;
+};
+
+// Drops objects the player has broken. Returns the chunk itself when nothing changes.
+export const withoutBroken = (chunk: ChunkData, broken: Set<string> | undefined): ChunkData => {
+  if (!broken?.size) return chunk;
+  const objects = chunk.objects.filter(obj => !broken.has(objectKey(obj)));
+  return objects.length === chunk.objects.length ? chunk : { ...chunk, objects };
+};
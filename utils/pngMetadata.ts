@@ -0,0 +1,45 @@
+// --- PNG Text Metadata ---
+// Adds tEXt chunks (keyword / value pairs, e.g. the world seed) to a PNG
+// right after its header, where any PNG reader will pick them up.
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const IHDR_END = 8 + 4 + 4 + 13 + 4; // Signature, then length, type, data and CRC of IHDR
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// tEXt is Latin-1; anything outside it is replaced rather than mis-encoded
+const latin1 = (text: string) => Uint8Array.from(text, ch => (ch.charCodeAt(0) < 256 ? ch.charCodeAt(0) : 63));
+
+const textChunk = (keyword: string, value: string) => {
+  const data = latin1(`${keyword.slice(0, 79)}\0${value}`);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1('tEXt'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export const embedPngText = async (png: Blob, entries: Record<string, string>): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    throw new Error("Not a PNG image");
+  }
+  const chunks = Object.entries(entries).map(([keyword, value]) => textChunk(keyword, value));
+  return new Blob([bytes.subarray(0, IHDR_END), ...chunks, bytes.subarray(IHDR_END)], { type: 'image/png' });
+};
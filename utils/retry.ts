@@ -0,0 +1,56 @@
+// --- Retry & Timeout Helpers ---
+// Network calls to the AI backends can hang or fail transiently. These wrap a
+// single call with a deadline and a bounded number of backed-off attempts.
+
+export class TimeoutError extends Error {
+  constructor(label: string, ms: number) {
+    super(`${label} timed out after ${Math.round(ms / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Rejects with TimeoutError if the promise has not settled within `ms`.
+// The underlying request is not cancelled; its late result is simply ignored.
+export const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new TimeoutError(label, ms)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+// A failure that will not go away on its own (e.g. a missing API key); withRetry rethrows it at once
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableError';
+  }
+}
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  // Called before each re-attempt with the attempt number about to run (2, 3, ...)
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter: base, 2x base, 4x base, ... plus up to 25%
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= options.attempts; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      lastError = error;
+      if (error instanceof NonRetryableError || attempt === options.attempts) break;
+      const delay = options.baseDelayMs * 2 ** (attempt - 1);
+      await sleep(delay + Math.random() * delay * 0.25);
+      options.onRetry?.(attempt + 1, error);
+    }
+  }
+  throw lastError;
+};
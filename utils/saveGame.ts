@@ -0,0 +1,130 @@
+import type { CharacterData } from '../App';
+import type { Season, Weather } from '../components/seasons';
+import { SKIN_FORMATS } from '../components/skinFormats';
+import { getAll, getOne, putOne, deleteOne } from './storage';
+import { downloadBlob } from './download';
+import { VIEW_DISTANCES } from './lod';
+import { clampStat } from './aiProvider';
+
+// --- Game Sessions ---
+// A session is everything needed to drop straight back into GameWorld:
+// the forged character (texture included), the world seed and the world state.
+
+export const SAVE_VERSION = 1;
+
+export interface WorldState {
+  position: [number, number, number];
+  time: number;
+  season: Season;
+  weather: Weather;
+  viewDistance?: number;
+  broken?: Record<string, string[]>; // Chunk id -> keys of objects the player destroyed
+}
+
+export interface GameSession {
+  version: number;
+  character: CharacterData;
+  seed: number;
+  world: WorldState;
+}
+
+export interface SaveSlot {
+  name: string;
+  savedAt: number; // ms since epoch
+  session: GameSession;
+}
+
+export const listSaves = async (): Promise<SaveSlot[]> => {
+  const slots = await getAll<SaveSlot>('saves');
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadSave = (name: string) => getOne<SaveSlot>('saves', name);
+
+export const writeSave = async (name: string, session: GameSession) => {
+  const slot: SaveSlot = { name, savedAt: Date.now(), session };
+  await putOne('saves', slot);
+  return slot;
+};
+
+export const deleteSave = (name: string) => deleteOne('saves', name);
+
+// --- File Export / Import ---
+
+export const exportSession = (session: GameSession, fileName: string) => {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  downloadBlob(blob, fileName.endsWith('.json') ? fileName : `${fileName}.json`);
+};
+
+const SEASONS: Season[] = ['Spring', 'Summer', 'Autumn', 'Winter'];
+const WEATHERS: Weather[] = ['Clear', 'Rain', 'Snow'];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isVector3 = (v: unknown): v is [number, number, number] => Array.isArray(v) && v.length === 3 && v.every(isNumber);
+
+const isOneOf = <T,>(options: readonly T[], v: unknown): v is T => (options as readonly unknown[]).includes(v);
+
+const parseBroken = (value: unknown): Record<string, string[]> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const out: Record<string, string[]> = {};
+  for (const [chunkId, keys] of Object.entries(value)) {
+    if (Array.isArray(keys)) out[chunkId] = keys.filter((k): k is string => typeof k === 'string');
+  }
+  return out;
+};
+
+// Throws with a readable message when the file is not a session we can load
+export const parseSession = (json: string): GameSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('File is not a saved session');
+  if (!isNumber(data.version) || data.version > SAVE_VERSION) throw new Error('Unsupported save version');
+
+  const c = data.character;
+  if (!isRecord(c) || typeof c.imageData !== 'string' || typeof c.name !== 'string' || !isRecord(c.stats)) {
+    throw new Error('Save is missing its character');
+  }
+  const stats = c.stats;
+  if (!isNumber(data.seed)) throw new Error('Save is missing its world seed');
+
+  const w = data.world;
+  if (!isRecord(w) || !isVector3(w.position) || !isNumber(w.time)) {
+    throw new Error('Save is missing its world state');
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed,
+    character: {
+      imageData: c.imageData,
+      skinFormat: isOneOf(SKIN_FORMATS, c.skinFormat) ? c.skinFormat : undefined,
+      name: c.name,
+      description: typeof c.description === 'string' ? c.description : '',
+      userPrompt: typeof c.userPrompt === 'string' ? c.userPrompt : '',
+      stats: {
+        strength: isNumber(stats.strength) ? clampStat(stats.strength, 'strength') : 5,
+        speed: isNumber(stats.speed) ? clampStat(stats.speed, 'speed') : 5,
+        magic: isNumber(stats.magic) ? clampStat(stats.magic, 'magic') : 5,
+      },
+    },
+    world: {
+      position: w.position,
+      time: w.time,
+      season: isOneOf(SEASONS, w.season) ? w.season : 'Spring',
+      weather: isOneOf(WEATHERS, w.weather) ? w.weather : 'Clear',
+      // Only offered radii: an arbitrary one could ask for an unbounded number of chunks
+      viewDistance: isOneOf(VIEW_DISTANCES, w.viewDistance) ? w.viewDistance : undefined,
+      broken: parseBroken(w.broken),
+    },
+  };
+};
+
+export const importSessionFile = async (file: File) => parseSession(await file.text());
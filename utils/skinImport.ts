@@ -0,0 +1,108 @@
+import type { SkinTexture } from '../components/skinFormats';
+
+// --- Classic Skin Import ---
+// Accepts standard 64x64 blocky-game skins (and legacy 64x32 ones), flattens
+// the second "overlay" layer onto the base layer and detects slim arms.
+
+const SKIN_PX = 64;
+
+// [overlay x, y, w, h] -> base [x, y] for every second-layer region
+const OVERLAYS: [number, number, number, number, number, number][] = [
+  [32, 0, 32, 16, 0, 0],    // Hat -> head
+  [16, 32, 24, 16, 16, 16], // Jacket -> body
+  [40, 32, 16, 16, 40, 16], // Right sleeve -> right arm
+  [48, 48, 16, 16, 32, 48], // Left sleeve -> left arm
+  [0, 32, 16, 16, 0, 16],   // Right trouser -> right leg
+  [0, 48, 16, 16, 16, 48],  // Left trouser -> left leg
+];
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Could not read the skin image")); };
+    img.src = url;
+  });
+};
+
+// Copies a region mirrored horizontally
+const flipCopy = (ctx: CanvasRenderingContext2D, sx: number, sy: number, w: number, h: number, dx: number, dy: number) => {
+  ctx.save();
+  ctx.translate(dx + w, dy);
+  ctx.scale(-1, 1);
+  ctx.drawImage(ctx.canvas, sx, sy, w, h, 0, 0, w, h);
+  ctx.restore();
+};
+
+// Legacy skins have no left limbs; the game mirrors the right ones. Mirroring a
+// box net flips every face and swaps the outer and inner sides.
+const mirrorLimb = (ctx: CanvasRenderingContext2D, sx: number, sy: number, dx: number, dy: number) => {
+  flipCopy(ctx, sx + 4, sy, 4, 4, dx + 4, dy);          // Top
+  flipCopy(ctx, sx + 8, sy, 4, 4, dx + 8, dy);          // Bottom
+  flipCopy(ctx, sx + 8, sy + 4, 4, 12, dx, dy + 4);     // Left side -> right side
+  flipCopy(ctx, sx + 4, sy + 4, 4, 12, dx + 4, dy + 4); // Front
+  flipCopy(ctx, sx, sy + 4, 4, 12, dx + 8, dy + 4);     // Right side -> left side
+  flipCopy(ctx, sx + 12, sy + 4, 4, 12, dx + 12, dy + 4); // Back
+};
+
+// Old converters fill the overlay with one opaque colour; that would hide the skin
+const isUsableOverlay = (pixels: Uint8ClampedArray) => {
+  let transparent = 0;
+  let uniform = true;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 255) transparent++;
+    if (pixels[i] !== pixels[0] || pixels[i + 1] !== pixels[1] || pixels[i + 2] !== pixels[2]) uniform = false;
+  }
+  if (transparent === pixels.length / 4) return false; // Nothing drawn
+  return transparent > 0 || !uniform;
+};
+
+// Slim skins leave the last two columns of the right arm net empty
+const isSlim = (ctx: CanvasRenderingContext2D) => {
+  const { data } = ctx.getImageData(54, 20, 2, 12);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 0) return false;
+  }
+  return true;
+};
+
+// Resolves to a normalised 64x64 PNG data URL in a classic format
+export const importClassicSkin = async (file: File): Promise<SkinTexture> => {
+  if (file.type && file.type !== 'image/png') {
+    throw new Error("Skins must be PNG files");
+  }
+  const img = await loadImage(file);
+  const legacy = img.width === SKIN_PX && img.height === SKIN_PX / 2;
+  if (img.width !== SKIN_PX || (img.height !== SKIN_PX && !legacy)) {
+    throw new Error(`Expected a 64x64 (or legacy 64x32) skin, got ${img.width}x${img.height}`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SKIN_PX;
+  canvas.height = SKIN_PX;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(img, 0, 0);
+
+  let slim = false;
+  if (legacy) {
+    mirrorLimb(ctx, 40, 16, 32, 48); // Right arm -> left arm
+    mirrorLimb(ctx, 0, 16, 16, 48);  // Right leg -> left leg
+  } else {
+    slim = isSlim(ctx);
+  }
+
+  // The hat layer exists in both formats; the rest only in 64x64 skins
+  const overlays = legacy ? OVERLAYS.slice(0, 1) : OVERLAYS;
+  for (const [ox, oy, w, h, bx, by] of overlays) {
+    if (!isUsableOverlay(ctx.getImageData(ox, oy, w, h).data)) continue;
+    ctx.drawImage(canvas, ox, oy, w, h, bx, by, w, h);
+  }
+
+  return {
+    imageData: canvas.toDataURL('image/png'),
+    format: slim ? 'classicSlim' : 'classic',
+  };
+};
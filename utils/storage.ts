@@ -0,0 +1,69 @@
+// --- IndexedDB Access ---
+// One database for everything the game persists. Stores are created in
+// `onupgradeneeded`; bump DB_VERSION when adding a store.
+
+const DB_NAME = 'infinite-sketch-world';
+const DB_VERSION = 2;
+
+export type StoreName = 'saves' | 'characters';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('saves')) db.createObjectStore('saves', { keyPath: 'name' });
+        if (!db.objectStoreNames.contains('characters')) db.createObjectStore('characters', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing blocked it)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll());
+export const getOne = <T>(store: StoreName, key: string) => run<T | undefined>(store, 'readonly', s => s.get(key));
+export const putOne = <T>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', s => s.put(value));
+export const deleteOne = (store: StoreName, key: string) => run<undefined>(store, 'readwrite', s => s.delete(key));
+
+// --- Local Settings ---
+// Small preferences live in localStorage as JSON. It can throw in sandboxed
+// frames or hold junk, so reads fall back to null and a failed write only
+// means the value lasts for this session.
+
+export const readLocal = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const writeLocal = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Nothing to do; callers keep the value in memory
+  }
+};
@@ -0,0 +1,357 @@
+import { SHEET_COLUMNS, SHEET_STRIP_V, SHEET_VIEWS, SkinFormat, SkinTexture } from '../components/skinFormats';
+
+// --- Skin Layout Validation ---
+// BlockyCharacter samples fixed regions of the texture (see skinFormats): view
+// columns with head / torso / legs bands top to bottom. Models often drift
+// from that layout, so the generated image is checked and, for the split
+// layout, cropped and stretched back into it before it reaches the game.
+
+// Image-space bands (top down). Same split as HEAD_V / BODY_V / LEG_V in UV space.
+export const SKIN_BANDS = {
+  head: [0, 0.25],
+  body: [0.25, 0.6],
+  legs: [0.6, 1],
+} as const;
+
+type Band = keyof typeof SKIN_BANDS;
+
+const ANALYSIS_SIZE = 128; // Checks run on a downscaled copy
+const OUTPUT_SIZE = 512;
+const ALPHA_CUTOFF = 32;
+const BG_TOLERANCE = 48;   // RGB distance still counted as background
+const EDGE_SLACK = 3;      // Analysis pixels a figure may sit inside its half before we re-fit it
+
+export interface LayoutReport {
+  imageData: string;  // Corrected texture, or the original if nothing needed changing
+  format: SkinFormat; // Layout the texture was validated as
+  notes: string[];    // Corrections applied and minor oddities
+  problems: string[]; // Issues that could not be corrected
+}
+
+// Thrown when a texture still fails validation after re-prompting
+export class SkinLayoutError extends Error {
+  constructor(public problems: string[], public texture?: SkinTexture) {
+    super(`Skin layout looks wrong: ${problems.join('; ')}`);
+    this.name = 'SkinLayoutError';
+  }
+}
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Half-open pixel rectangle [x0, x1) x [y0, y1)
+interface Rect {
+  x0: number; y0: number;
+  x1: number; y1: number;
+}
+
+export interface Mask {
+  bits: Uint8Array; // 1 = character, 0 = background
+  width: number;
+  height: number;
+  background: [number, number, number] | null;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Background removal: a border ring that is mostly one colour (or transparent)
+// is taken as backdrop, and everything close to that colour is masked out.
+// Full-bleed textures skip that and keep every opaque pixel.
+export const buildMask = ({ data, width, height }: Pixels, detectBackground = true): Mask => {
+  const ring: [number, number, number][] = [];
+  let ringTotal = 0;
+  let ringTransparent = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= 2 && y >= 2 && x < width - 2 && y < height - 2) continue;
+      const i = (y * width + x) * 4;
+      ringTotal++;
+      if (data[i + 3] < ALPHA_CUTOFF) ringTransparent++;
+      else ring.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+
+  const distance = (i: number, c: [number, number, number]) =>
+    Math.hypot(data[i] - c[0], data[i + 1] - c[1], data[i + 2] - c[2]);
+
+  let background: Mask['background'] = null;
+  if (detectBackground && ring.length) {
+    const candidate: [number, number, number] = [
+      median(ring.map(c => c[0])), median(ring.map(c => c[1])), median(ring.map(c => c[2])),
+    ];
+    const matching = ring.filter(c => Math.hypot(c[0] - candidate[0], c[1] - candidate[1], c[2] - candidate[2]) < BG_TOLERANCE).length;
+    if ((matching + ringTransparent) / ringTotal >= 0.6) background = candidate;
+  }
+
+  const bits = new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    if (data[i + 3] < ALPHA_CUTOFF) continue;
+    if (background && distance(i, background) < BG_TOLERANCE) continue;
+    bits[p] = 1;
+  }
+  return { bits, width, height, background };
+};
+
+const boundingBox = (mask: Mask, region: Rect): Rect | null => {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      if (!mask.bits[y * mask.width + x]) continue;
+      x0 = Math.min(x0, x); x1 = Math.max(x1, x + 1);
+      y0 = Math.min(y0, y); y1 = Math.max(y1, y + 1);
+    }
+  }
+  return x0 === Infinity ? null : { x0, y0, x1, y1 };
+};
+
+// Column spans that contain content, bridging gaps of a couple of pixels
+const findColumnRuns = (mask: Mask, rows = mask.height): { start: number; end: number }[] => {
+  const runs: { start: number; end: number }[] = [];
+  let current: { start: number; end: number } | null = null;
+  for (let x = 0; x < mask.width; x++) {
+    let count = 0;
+    for (let y = 0; y < rows; y++) count += mask.bits[y * mask.width + x];
+    if (count > 1) {
+      if (current && x - current.end <= 2) current.end = x + 1;
+      else {
+        current = { start: x, end: x + 1 };
+        runs.push(current);
+      }
+    }
+  }
+  return runs.filter(r => r.end - r.start >= 4);
+};
+
+const coverage = (mask: Mask, region: Rect) => {
+  let filled = 0;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) filled += mask.bits[y * mask.width + x];
+  }
+  return filled / Math.max(1, (region.x1 - region.x0) * (region.y1 - region.y0));
+};
+
+// Mean number of filled pixels per row; a rough silhouette width
+const meanRowWidth = (mask: Mask, region: Rect) => coverage(mask, region) * (region.x1 - region.x0);
+
+// Intersection-over-union of two equally sized regions, optionally mirroring the second
+const overlap = (mask: Mask, a: Rect, b: Rect, mirrorB: boolean) => {
+  let both = 0, either = 0;
+  const w = a.x1 - a.x0;
+  for (let y = a.y0; y < a.y1; y++) {
+    for (let dx = 0; dx < w; dx++) {
+      const bx = mirrorB ? b.x1 - 1 - dx : b.x0 + dx;
+      const pa = mask.bits[y * mask.width + a.x0 + dx];
+      const pb = mask.bits[y * mask.width + bx];
+      both += pa & pb;
+      either += pa | pb;
+    }
+  }
+  return either ? both / either : 1;
+};
+
+const bandRect = (band: Band, x0: number, x1: number, height: number): Rect => ({
+  x0, x1, y0: Math.round(SKIN_BANDS[band][0] * height), y1: Math.round(SKIN_BANDS[band][1] * height),
+});
+
+// Checks a texture that is already in (or was fitted to) the canonical layout
+export const checkCanonicalLayout = (mask: Mask): { notes: string[]; problems: string[] } => {
+  const notes: string[] = [];
+  const problems: string[] = [];
+  const half = Math.floor(mask.width / 2);
+  const views: [string, number, number][] = [['front', 0, half], ['back', half, mask.width]];
+
+  for (const [view, x0, x1] of views) {
+    (Object.keys(SKIN_BANDS) as Band[]).forEach(band => {
+      if (coverage(mask, bandRect(band, x0, x1, mask.height)) < 0.15) {
+        problems.push(`${view} view has almost nothing in the ${band} band`);
+      }
+    });
+
+    // A standing figure has its head no wider than its shoulders; otherwise it is
+    // probably upside down, lying down, or not a character at all
+    const headWidth = meanRowWidth(mask, bandRect('head', x0, x1, mask.height));
+    const bodyWidth = meanRowWidth(mask, bandRect('body', x0, x1, mask.height));
+    if (headWidth > bodyWidth * 1.5) {
+      problems.push(`${view} view does not look like a head above a body`);
+    }
+
+    const halfRect = { x0, x1, y0: 0, y1: mask.height };
+    if (overlap(mask, halfRect, halfRect, true) < 0.5) {
+      notes.push(`${view} view is not symmetrical`);
+    }
+  }
+
+  // Back silhouette should match the front one, seen from behind
+  const front = { x0: 0, x1: half, y0: 0, y1: mask.height };
+  const back = { x0: half, x1: half * 2, y0: 0, y1: mask.height };
+  if (overlap(mask, front, back, true) < 0.4) {
+    problems.push("front and back views have different silhouettes");
+  }
+
+  return { notes, problems };
+};
+
+// Checks the sheet layout: four view columns above the top / bottom strip
+export const checkSheetLayout = (mask: Mask): { notes: string[]; problems: string[] } => {
+  const notes: string[] = [];
+  const problems: string[] = [];
+  const figureHeight = Math.round(mask.height * (1 - SHEET_STRIP_V));
+  const columnWidth = Math.floor(mask.width / SHEET_COLUMNS);
+  const column = (i: number): Rect => ({ x0: i * columnWidth, x1: (i + 1) * columnWidth, y0: 0, y1: figureHeight });
+
+  SHEET_VIEWS.forEach((view, i) => {
+    const { x0, x1 } = column(i);
+    const isProfile = i >= 2; // Side views are only as wide as the character is deep
+    (Object.keys(SKIN_BANDS) as Band[]).forEach(band => {
+      if (coverage(mask, bandRect(band, x0, x1, figureHeight)) < (isProfile ? 0.08 : 0.15)) {
+        problems.push(`${view} view has almost nothing in the ${band} band`);
+      }
+    });
+    if (!isProfile) {
+      const headWidth = meanRowWidth(mask, bandRect('head', x0, x1, figureHeight));
+      const bodyWidth = meanRowWidth(mask, bandRect('body', x0, x1, figureHeight));
+      if (headWidth > bodyWidth * 1.5) {
+        problems.push(`${view} view does not look like a head above a body`);
+      }
+      if (overlap(mask, column(i), column(i), true) < 0.5) notes.push(`${view} view is not symmetrical`);
+    }
+  });
+
+  // Back mirrors front, and the two profiles mirror each other
+  if (overlap(mask, column(0), column(1), true) < 0.4) {
+    problems.push("front and back views have different silhouettes");
+  }
+  if (overlap(mask, column(2), column(3), true) < 0.4) {
+    problems.push("left and right side views have different silhouettes");
+  }
+
+  const half = Math.floor(mask.width / 2);
+  const strip = (x0: number, x1: number): Rect => ({ x0, x1, y0: figureHeight, y1: mask.height });
+  if (coverage(mask, strip(0, half)) < 0.1) problems.push("top view is missing");
+  if (coverage(mask, strip(half, mask.width)) < 0.1) problems.push("bottom view is missing");
+
+  return { notes, problems };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read texture"));
+    img.src = src;
+  });
+};
+
+const readPixels = (source: CanvasImageSource, size: number): Pixels => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.drawImage(source, 0, 0, size, size);
+  return ctx.getImageData(0, 0, size, size);
+};
+
+// Validates a generated skin and fits it into the canonical layout where possible.
+// `fullBleed` textures are painted edge to edge with no backdrop to remove.
+export const validateSkinLayout = async (dataUrl: string, format: SkinFormat = 'split', fullBleed = false): Promise<LayoutReport> => {
+  const img = await loadImage(dataUrl);
+  const mask = buildMask(readPixels(img, ANALYSIS_SIZE), !fullBleed);
+  const notes: string[] = [];
+  const size = ANALYSIS_SIZE;
+  const half = size / 2;
+
+  // Sheet views are read from the fixed grid, so views that touch (or a
+  // full-bleed texture) are fine. Only when that fails and exactly two separate
+  // figures stand above the strip is it a front | back image, rendered through
+  // the split layout instead.
+  if (format === 'sheet') {
+    const sheet = checkSheetLayout(mask);
+    if (!sheet.problems.length || findColumnRuns(mask, Math.round(size * (1 - SHEET_STRIP_V))).length !== 2) {
+      return { imageData: dataUrl, format, ...sheet };
+    }
+    notes.push("no side views found, using the front/back layout");
+  }
+
+  // Locate the two views. Two separate figures split at the gap between them;
+  // one figure covering most of the width is two views touching at the middle;
+  // a lone narrower figure means the back view is missing.
+  const runs = findColumnRuns(mask).sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  if (runs.length === 0) {
+    return { imageData: dataUrl, format: 'split', notes, problems: ["texture is blank"] };
+  }
+
+  let split = half;
+  let mirrorBack = false;
+  if (runs.length >= 2) {
+    const [a, b] = [runs[0], runs[1]].sort((r1, r2) => r1.start - r2.start);
+    split = Math.round((a.end + b.start) / 2);
+  } else if (runs[0].end - runs[0].start < size * 0.75) {
+    mirrorBack = true;
+    split = size;
+    notes.push("back view missing, mirrored the front");
+  }
+
+  const frontBox = boundingBox(mask, { x0: 0, x1: split, y0: 0, y1: size });
+  const backBox = mirrorBack ? frontBox : boundingBox(mask, { x0: split, x1: size, y0: 0, y1: size });
+  if (!frontBox || !backBox) {
+    return { imageData: dataUrl, format: 'split', notes, problems: ["could not find both views"] };
+  }
+
+  const fits = (box: Rect, x0: number, x1: number) =>
+    box.x0 - x0 <= EDGE_SLACK && x1 - box.x1 <= EDGE_SLACK && box.y0 <= EDGE_SLACK && size - box.y1 <= EDGE_SLACK;
+  const needsFit = mirrorBack || Math.abs(split - half) > EDGE_SLACK || !fits(frontBox, 0, half) || !fits(backBox, half, size);
+
+  if (!needsFit) {
+    const checked = checkCanonicalLayout(mask);
+    return { imageData: dataUrl, format: 'split', notes: [...notes, ...checked.notes], problems: checked.problems };
+  }
+
+  // Crop each view to its bounding box and stretch it over its half of the output
+  const canvas = document.createElement('canvas');
+  canvas.width = OUTPUT_SIZE;
+  canvas.height = OUTPUT_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable");
+  if (mask.background) {
+    ctx.fillStyle = `rgb(${mask.background.join(',')})`;
+    ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+  }
+
+  const sx = img.width / size;
+  const sy = img.height / size;
+  const drawView = (box: Rect, dx: number) => {
+    ctx.drawImage(
+      img,
+      box.x0 * sx, box.y0 * sy, (box.x1 - box.x0) * sx, (box.y1 - box.y0) * sy,
+      dx, 0, OUTPUT_SIZE / 2, OUTPUT_SIZE
+    );
+  };
+
+  drawView(frontBox, 0);
+  if (mirrorBack) {
+    ctx.save();
+    ctx.translate(OUTPUT_SIZE, 0);
+    ctx.scale(-1, 1);
+    drawView(frontBox, 0);
+    ctx.restore();
+  } else {
+    drawView(backBox, OUTPUT_SIZE / 2);
+  }
+  notes.push("views re-fitted to the front/back layout");
+
+  const fitted = checkCanonicalLayout(buildMask(readPixels(canvas, ANALYSIS_SIZE), !fullBleed));
+  return {
+    imageData: canvas.toDataURL('image/png'),
+    format: 'split',
+    notes: [...notes, ...fitted.notes],
+    problems: fitted.problems,
+  };
+};
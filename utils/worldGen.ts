@@ -1,10 +1,14 @@
+import { createNoise2D, fbm2D, FbmOptions, Noise2D } from './noise';
 
 export const CHUNK_SIZE = 20;
+export const TERRAIN_RESOLUTION = 16; // Heightmap segments per chunk side
+export const WATER_LEVEL = 0;
 
 export type BiomeType = 'forest' | 'desert' | 'snow' | 'volcanic' | 'magical' | 'plains' | 'swamp' | 'beach';
 
 export interface WorldObject {
-  type: 'tree' | 'palm' | 'rock' | 'cactus' | 'grass' | 'cloud' | 'crystal' | 'flower' | 'ruins' | 'bush' | 'mushroom' | 'reed' | 'deadbush' | 'water';
+  type: 'tree' | 'palm' | 'rock' | 'cactus' | 'grass' | 'cloud' | 'crystal' | 'flower' | 'ruins' | 'bush' | 'mushroom' | 'reed' | 'deadbush'
+    | 'block' | 'pillar' | 'roof'; // Structure parts; y is their base, not their centre
   x: number;
   y: number;
   z: number;
@@ -20,68 +24,514 @@ export interface ChunkData {
   biomeType: BiomeType;
   objects: WorldObject[];
   groundColor: string;
-  hasWater?: boolean;
+  hasWater?: boolean; // Some of the terrain dips below WATER_LEVEL
+  // (TERRAIN_RESOLUTION + 1)^2 samples, row-major by z then x, from the chunk's -x/-z corner
+  heights: Float32Array;
 }
 
-const seededRandom = (seed: number) => {
-  const x = Math.sin(seed) * 10000;
-  return x - Math.floor(x);
+// --- World Seed ---
+
+export const MAX_SEED = 0xffffffff;
+
+// Integer hash (murmur3 finalizer). Stable across platforms, unlike Math.sin tricks.
+const hash32 = (n: number) => {
+  let h = n | 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Mixes the world seed with integer coordinates into a new 32-bit seed
+export const hashCoords = (seed: number, x: number, z: number) => {
+  return hash32(hash32(hash32(seed) ^ Math.imul(x | 0, 0x27d4eb2d)) ^ Math.imul(z | 0, 0x165667b1));
+};
+
+export const seededRandom = (seed: number) => {
+  return hash32(seed) / 4294967296;
+};
+
+// Accepts either a plain number ("12345") or any text ("dragon valley")
+export const parseSeed = (input: string): number => {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) % (MAX_SEED + 1);
+  let h = 2166136261;
+  for (let i = 0; i < trimmed.length; i++) {
+    h = Math.imul(h ^ trimmed.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+// --- Climate Fields ---
+// Three independent noise maps (temperature, moisture, elevation), each in [0, 1].
+
+export interface Climate {
+  temperature: number;
+  moisture: number;
+  elevation: number;
+}
+
+interface ClimateNoise {
+  temperature: Noise2D;
+  moisture: Noise2D;
+  elevation: Noise2D;
+  detail: Noise2D; // Terrain shaping only, never affects biome choice
+  hydrology: Noise2D; // Rivers and lakes
+}
+
+// Noise functions are cheap to sample but not to build, so keep one set per seed
+const climateNoiseCache = new Map<number, ClimateNoise>();
+
+const getClimateNoise = (worldSeed: number): ClimateNoise => {
+  let cached = climateNoiseCache.get(worldSeed);
+  if (!cached) {
+    cached = {
+      temperature: createNoise2D(hashCoords(worldSeed, 1, 0)),
+      moisture: createNoise2D(hashCoords(worldSeed, 2, 0)),
+      elevation: createNoise2D(hashCoords(worldSeed, 3, 0)),
+      detail: createNoise2D(hashCoords(worldSeed, 4, 0)),
+      hydrology: createNoise2D(hashCoords(worldSeed, 6, 0)),
+    };
+    climateNoiseCache.set(worldSeed, cached);
+  }
+  return cached;
+};
+
+// Frequencies are in chunk units: climate regions span roughly 10-20 chunks
+const TEMPERATURE_FBM: FbmOptions = { octaves: 3, frequency: 0.035 };
+const MOISTURE_FBM: FbmOptions = { octaves: 3, frequency: 0.05 };
+const ELEVATION_FBM: FbmOptions = { octaves: 5, frequency: 0.04 };
+
+const to01 = (n: number) => Math.min(1, Math.max(0, n * 0.5 + 0.5));
+
+// Samples climate at a (possibly fractional) chunk coordinate
+export const sampleClimate = (worldSeed: number, cx: number, cz: number): Climate => {
+  const noise = getClimateNoise(worldSeed);
+  return {
+    temperature: to01(fbm2D(noise.temperature, cx, cz, TEMPERATURE_FBM) * 1.4),
+    moisture: to01(fbm2D(noise.moisture, cx, cz, MOISTURE_FBM) * 1.4),
+    elevation: to01(fbm2D(noise.elevation, cx, cz, ELEVATION_FBM) * 1.3),
+  };
 };
 
-export const generateChunkData = (cx: number, cz: number): ChunkData => {
+// --- Biome Lookup Table ---
+// Each biome sits at a point in climate space; a chunk takes the nearest one.
+// New biomes only need a climate centre here, no threshold tuning elsewhere.
+
+interface BiomeDefinition {
+  climate: Climate;
+  groundColor: string;
+  density: number; // Max random objects per chunk
+}
+
+export const BIOMES: Record<BiomeType, BiomeDefinition> = {
+  snow:     { climate: { temperature: 0.10, moisture: 0.50, elevation: 0.70 }, groundColor: '#e0fbfc', density: 10 },
+  magical:  { climate: { temperature: 0.35, moisture: 0.85, elevation: 0.75 }, groundColor: '#240046', density: 10 },
+  forest:   { climate: { temperature: 0.45, moisture: 0.65, elevation: 0.50 }, groundColor: '#2d6a4f', density: 12 },
+  plains:   { climate: { temperature: 0.55, moisture: 0.40, elevation: 0.45 }, groundColor: '#90be6d', density: 8 },
+  swamp:    { climate: { temperature: 0.55, moisture: 0.85, elevation: 0.25 }, groundColor: '#3a5a40', density: 15 },
+  beach:    { climate: { temperature: 0.70, moisture: 0.40, elevation: 0.15 }, groundColor: '#f4a261', density: 5 },
+  desert:   { climate: { temperature: 0.85, moisture: 0.15, elevation: 0.45 }, groundColor: '#e9c46a', density: 4 },
+  volcanic: { climate: { temperature: 0.90, moisture: 0.20, elevation: 0.85 }, groundColor: '#370617', density: 10 },
+};
+
+// Elevation matters most: it separates coasts from mountains
+const CLIMATE_WEIGHTS: Climate = { temperature: 1, moisture: 0.8, elevation: 1.5 };
+
+export const lookupBiome = (climate: Climate): BiomeType => {
+  let best: BiomeType = 'forest';
+  let bestDist = Infinity;
+  (Object.keys(BIOMES) as BiomeType[]).forEach(type => {
+    const c = BIOMES[type].climate;
+    const dt = (climate.temperature - c.temperature) * CLIMATE_WEIGHTS.temperature;
+    const dm = (climate.moisture - c.moisture) * CLIMATE_WEIGHTS.moisture;
+    const de = (climate.elevation - c.elevation) * CLIMATE_WEIGHTS.elevation;
+    const dist = dt * dt + dm * dm + de * de;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = type;
+    }
+  });
+  return best;
+};
+
+// --- Terrain Heights ---
+// Heights are a continuous function of world position, so neighbouring chunks
+// sample identical values along shared edges and the terrain stays seamless.
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+const HILLS_FBM: FbmOptions = { octaves: 3, frequency: 0.6 };
+const RIDGE_FBM: FbmOptions = { octaves: 4, frequency: 0.25 };
+
+// --- Hydrology ---
+// All water sits at WATER_LEVEL: the sea where low elevation sinks below it,
+// plus rivers and lakes carved down beneath it. The carving is part of the
+// height function, so channels run on across chunk borders and shorelines are
+// simply where the terrain meets the water plane.
+
+const RIVER_FBM: FbmOptions = { octaves: 3, frequency: 0.05 };
+const LAKE_FBM: FbmOptions = { octaves: 2, frequency: 0.12 };
+const RIVER_BED = WATER_LEVEL - 1.2;
+const LAKE_BED = WATER_LEVEL - 2.5;
+
+// How far a point is pulled down into a river channel and a lake bed, each 0-1
+const sampleWaterways = (noise: ClimateNoise, fx: number, fz: number, climate: Climate) => {
+  // Warped lookup so rivers meander instead of tracing smooth noise contours
+  const wx = fx + noise.detail(fx * 0.3 + 50, fz * 0.3) * 1.5;
+  const wz = fz + noise.detail(fx * 0.3, fz * 0.3 + 50) * 1.5;
+  // Rivers follow the zero line of the field and dry up towards the highlands
+  const channel = Math.abs(fbm2D(noise.hydrology, wx, wz, RIVER_FBM));
+  const river = (1 - smoothstep(0.015, 0.05, channel)) * smoothstep(0.68, 0.55, climate.elevation);
+  // Lakes fill hollows in wet lowlands
+  const basin = fbm2D(noise.hydrology, fx + 200, fz + 200, LAKE_FBM);
+  const lake = smoothstep(0.3, 0.45, basin) * smoothstep(0.45, 0.6, climate.moisture) * smoothstep(0.65, 0.5, climate.elevation);
+  return { river, lake };
+};
+
+// Lowers h towards bed by amount, never raising ground that is already deeper
+const carve = (h: number, bed: number, amount: number) => (h > bed ? h + (bed - h) * amount : h);
+
+export const getTerrainHeight = (worldSeed: number, wx: number, wz: number) => {
+  const fx = wx / CHUNK_SIZE;
+  const fz = wz / CHUNK_SIZE;
+  const climate = sampleClimate(worldSeed, fx, fz);
+  const { temperature, moisture, elevation } = climate;
+  const noise = getClimateNoise(worldSeed);
+  const { detail } = noise;
+
+  // Low elevation sinks below WATER_LEVEL, giving beaches a slope into the sea
+  const base = (elevation - 0.3) * 14;
+
+  // Rolling hills, flattened near the shore
+  const hills = fbm2D(detail, fx, fz, HILLS_FBM) * 1.2 * smoothstep(0.1, 0.35, elevation);
+
+  // Ridged mountains on highlands (snowy peaks, volcanic cones)
+  const highland = smoothstep(0.6, 0.9, elevation);
+  const ridge = 1 - Math.abs(fbm2D(detail, fx + 100, fz + 100, RIDGE_FBM));
+  let mountains = highland * ridge * ridge * 16;
+
+  // Hot highlands hollow out at the top into a crater
+  const volcanism = highland * smoothstep(0.7, 0.9, temperature);
+  mountains -= volcanism * smoothstep(8, 14, mountains) * (mountains - 8) * 1.6;
+
+  // Dunes: long, soft ridges in hot, dry regions
+  const arid = smoothstep(0.65, 0.85, temperature) * smoothstep(0.35, 0.15, moisture);
+  const dunes = arid * (1 - Math.abs(detail(fx * 1.2, fz * 0.5))) * 1.5;
+
+  const { river, lake } = sampleWaterways(noise, fx, fz, climate);
+  return carve(carve(base + hills + mountains + dunes, RIVER_BED, river), LAKE_BED, lake);
+};
+
+const buildHeightmap = (worldSeed: number, cx: number, cz: number) => {
+  const size = TERRAIN_RESOLUTION + 1;
+  const step = CHUNK_SIZE / TERRAIN_RESOLUTION;
+  const originX = cx * CHUNK_SIZE - CHUNK_SIZE / 2;
+  const originZ = cz * CHUNK_SIZE - CHUNK_SIZE / 2;
+  const heights = new Float32Array(size * size);
+  for (let iz = 0; iz < size; iz++) {
+    for (let ix = 0; ix < size; ix++) {
+      heights[iz * size + ix] = getTerrainHeight(worldSeed, originX + ix * step, originZ + iz * step);
+    }
+  }
+  return heights;
+};
+
+// Bilinear lookup into a chunk heightmap. x/z are relative to the chunk centre.
+export const sampleChunkHeight = (chunk: ChunkData, localX: number, localZ: number) => {
+  const size = TERRAIN_RESOLUTION + 1;
+  const step = CHUNK_SIZE / TERRAIN_RESOLUTION;
+  const gx = Math.min(TERRAIN_RESOLUTION, Math.max(0, (localX + CHUNK_SIZE / 2) / step));
+  const gz = Math.min(TERRAIN_RESOLUTION, Math.max(0, (localZ + CHUNK_SIZE / 2) / step));
+  const x0 = Math.min(TERRAIN_RESOLUTION - 1, Math.floor(gx));
+  const z0 = Math.min(TERRAIN_RESOLUTION - 1, Math.floor(gz));
+  const tx = gx - x0;
+  const tz = gz - z0;
+  const h = chunk.heights;
+  const top = h[z0 * size + x0] * (1 - tx) + h[z0 * size + x0 + 1] * tx;
+  const bottom = h[(z0 + 1) * size + x0] * (1 - tx) + h[(z0 + 1) * size + x0 + 1] * tx;
+  return top * (1 - tz) + bottom * tz;
+};
+
+// --- Structures ---
+// Landmarks spanning several chunks. The world is split into regions of
+// REGION_CHUNKS x REGION_CHUNKS chunks holding at most one structure each. A
+// structure depends only on the seed and its region, and stays inside it, so
+// every chunk it touches builds the same parts whichever loads first; each
+// chunk keeps the parts whose centre lies inside it.
+
+export type StructureKind = 'temple' | 'watchtower' | 'stiltHuts' | 'crystalCircle' | 'village';
+
+interface StructurePart {
+  type: 'block' | 'pillar' | 'roof' | 'crystal';
+  x: number;                 // From the structure centre, before its rotation
+  z: number;
+  y: number;                 // Base height above the anchor
+  scale: [number, number, number];
+  color: string;
+  rotation?: number;         // Yaw relative to the structure
+  ground?: [number, number]; // Anchored to the terrain at this (structure-local) point instead of the floor
+}
+
+interface StructureTemplate {
+  kind: StructureKind;
+  biome: BiomeType;
+  radius: number;    // Footprint; random scenery inside is cleared
+  minFloor?: number; // Lowest floor height, e.g. to keep decks above the water
+  build: (rand: () => number) => StructurePart[];
+}
+
+export interface Structure {
+  kind: StructureKind;
+  x: number; // World centre
+  z: number;
+  radius: number;
+  objects: WorldObject[]; // World-space positions
+}
+
+export const REGION_CHUNKS = 4;
+const STRUCTURE_CHANCE = 0.5;
+const MAX_STRUCTURE_RADIUS = 16; // Centres keep this far from the region edge
+
+// Same convention as a yaw on a three.js group
+const rotateXZ = (x: number, z: number, yaw: number): [number, number] => [
+  x * Math.cos(yaw) + z * Math.sin(yaw),
+  -x * Math.sin(yaw) + z * Math.cos(yaw),
+];
+
+// Moves a group of parts to (x, z) and turns it by yaw, optionally settling it on the terrain there
+const placeGroup = (parts: StructurePart[], x: number, z: number, yaw: number, onGround = false): StructurePart[] =>
+  parts.map(part => {
+    const [rx, rz] = rotateXZ(part.x, part.z, yaw);
+    return {
+      ...part,
+      x: x + rx,
+      z: z + rz,
+      rotation: (part.rotation ?? 0) + yaw,
+      ground: onGround ? [x, z] : part.ground,
+    };
+  });
+
+const part = (type: StructurePart['type'], x: number, y: number, z: number, scale: [number, number, number], color: string): StructurePart => ({
+  type, x, y, z, scale, color,
+});
+
+// House with its door on the +z side, centred on its footprint
+const buildHouse = (width: number, depth: number, wall: string, roof: string): StructurePart[] => [
+  part('block', 0, -0.5, 0, [width, 2.8, depth], wall), // Sunk so slopes do not show a gap
+  part('roof', 0, 2.3, 0, [width + 0.8, 1.8, depth + 0.8], roof),
+  part('block', 0, -0.5, depth / 2 + 0.01, [0.8, 2.1, 0.06], '#582f0e'),
+];
+
+const STRUCTURE_TEMPLATES: StructureTemplate[] = [
+  {
+    kind: 'temple',
+    biome: 'desert',
+    radius: 14,
+    build: (rand) => {
+      const sand = ['#e9c46a', '#dda15e', '#d4a373'];
+      const tiers = 3 + Math.floor(rand() * 2);
+      const parts: StructurePart[] = [];
+      // Stepped pyramid; the lowest tier reaches below the floor to cover the dunes
+      for (let t = 0; t < tiers; t++) {
+        const size = 14 - t * 3;
+        parts.push(part('block', 0, t === 0 ? -2 : t * 1.5, 0, [size, t === 0 ? 3.5 : 1.5, size], sand[t % sand.length]));
+      }
+      const top = tiers * 1.5;
+      parts.push(part('block', 0, top, 0, [2.6, 2.4, 2.6], '#bc6c25'));
+      parts.push(part('roof', 0, top + 2.4, 0, [3.4, 1.4, 3.4], '#9c6644'));
+      // Obelisks with gilded caps at the corners
+      for (const [ox, oz] of [[-9, -9], [9, -9], [-9, 9], [9, 9]]) {
+        const height = 4 + rand() * 2;
+        parts.push(...placeGroup([
+          part('block', 0, -0.5, 0, [0.8, height + 0.5, 0.8], '#cb997e'),
+          part('roof', 0, height, 0, [0.9, 0.8, 0.9], '#ffd166'),
+        ], ox, oz, 0, true));
+      }
+      return parts;
+    },
+  },
+  {
+    kind: 'watchtower',
+    biome: 'snow',
+    radius: 6,
+    build: (rand) => {
+      const deck = 7 + rand() * 3;
+      const wood = '#6f4e37';
+      const parts: StructurePart[] = [];
+      for (const [ox, oz] of [[-1.6, -1.6], [1.6, -1.6], [-1.6, 1.6], [1.6, 1.6]]) {
+        parts.push(part('pillar', ox, -2, oz, [0.4, deck + 2, 0.4], wood));
+        parts.push(part('pillar', ox * 1.2, deck + 0.4, oz * 1.2, [0.2, 2.2, 0.2], wood)); // Roof posts
+      }
+      parts.push(part('block', 0, deck, 0, [4.4, 0.4, 4.4], '#8b5e3c'));
+      // Railings
+      parts.push(part('block', 0, deck + 0.4, 2.1, [4.4, 0.8, 0.2], wood));
+      parts.push(part('block', 0, deck + 0.4, -2.1, [4.4, 0.8, 0.2], wood));
+      parts.push(part('block', 2.1, deck + 0.4, 0, [0.2, 0.8, 4.4], wood));
+      parts.push(part('block', -2.1, deck + 0.4, 0, [0.2, 0.8, 4.4], wood));
+      parts.push(part('roof', 0, deck + 2.6, 0, [5, 2, 5], '#495057'));
+      // Woodpile at the foot of the tower
+      parts.push(...placeGroup([part('block', 0, -0.3, 0, [1.6, 1.1, 0.8], '#7f5539')], 3.5, 2, rand() * Math.PI, true));
+      return parts;
+    },
+  },
+  {
+    kind: 'stiltHuts',
+    biome: 'swamp',
+    radius: 13,
+    minFloor: WATER_LEVEL + 1.2,
+    build: (rand) => {
+      const count = 2 + Math.floor(rand() * 2);
+      const huts: [number, number][] = [];
+      const parts: StructurePart[] = [];
+      for (let i = 0; i < count; i++) {
+        const hx = (i - (count - 1) / 2) * 7;
+        const hz = (rand() - 0.5) * 3;
+        huts.push([hx, hz]);
+        for (const [ox, oz] of [[-1.6, -1.6], [1.6, -1.6], [-1.6, 1.6], [1.6, 1.6]]) {
+          parts.push(part('pillar', hx + ox, -4, hz + oz, [0.3, 4.2, 0.3], '#5c4033'));
+        }
+        parts.push(...placeGroup([
+          part('block', 0, 0, 0, [4, 0.3, 4], '#7f5539'),
+          part('block', 0, 0.3, 0, [3, 2, 3], '#6b705c'),
+          part('roof', 0, 2.3, 0, [3.8, 1.6, 3.8], '#a3b18a'),
+          part('block', 0, 0.3, 1.51, [0.8, 1.4, 0.05], '#3a2e1f'),
+        ], hx, hz, 0));
+      }
+      // Plank walkways from deck to deck
+      for (let i = 1; i < huts.length; i++) {
+        const [ax, az] = huts[i - 1];
+        const [bx, bz] = huts[i];
+        const walkway = part('block', (ax + bx) / 2, 0.05, (az + bz) / 2, [Math.hypot(bx - ax, bz - az) - 3.6, 0.2, 1], '#7f5539');
+        walkway.rotation = Math.atan2(-(bz - az), bx - ax);
+        parts.push(walkway);
+      }
+      return parts;
+    },
+  },
+  {
+    kind: 'crystalCircle',
+    biome: 'magical',
+    radius: 10,
+    build: (rand) => {
+      const count = 7 + Math.floor(rand() * 3);
+      const parts: StructurePart[] = [];
+      for (let k = 0; k < count; k++) {
+        const angle = (k / count) * Math.PI * 2;
+        const x = Math.cos(angle) * 7;
+        const z = Math.sin(angle) * 7;
+        const crystal = part('crystal', x, 0, z, [0.5, 3 + rand() * 3, 0.5], `hsl(${260 + rand() * 60}, 80%, 70%)`);
+        crystal.rotation = rand() * Math.PI;
+        crystal.ground = [x, z];
+        parts.push(crystal);
+      }
+      parts.push(part('block', 0, -1, 0, [2.5, 2, 2.5], '#3c096c'));
+      parts.push(part('crystal', 0, 3.5, 0, [0.6, 2, 0.6], '#e0aaff')); // Floats over the altar
+      return parts;
+    },
+  },
+  {
+    kind: 'village',
+    biome: 'forest',
+    radius: 16,
+    build: (rand) => {
+      const walls = ['#f1e3c6', '#e6ccb2', '#ddb892'];
+      const roofs = ['#9c2c2c', '#6c584c', '#7f4f24'];
+      const parts: StructurePart[] = [
+        // Well in the square
+        part('pillar', 0, -0.5, 0, [1.6, 1.3, 1.6], '#8d99ae'),
+        part('pillar', -0.6, 0.8, 0, [0.12, 1.5, 0.12], '#6f4e37'),
+        part('pillar', 0.6, 0.8, 0, [0.12, 1.5, 0.12], '#6f4e37'),
+        part('roof', 0, 2.3, 0, [2, 0.8, 2], '#9c6644'),
+      ];
+      const houses = 3 + Math.floor(rand() * 3);
+      for (let h = 0; h < houses; h++) {
+        const angle = (h / houses) * Math.PI * 2 + (rand() - 0.5) * 0.5;
+        const dist = 9 + rand() * 3;
+        const hx = Math.cos(angle) * dist;
+        const hz = Math.sin(angle) * dist;
+        const house = buildHouse(3 + rand(), 3 + rand(), walls[h % walls.length], roofs[Math.floor(rand() * roofs.length)]);
+        // Doors face the well
+        parts.push(...placeGroup(house, hx, hz, Math.atan2(-hx, -hz), true));
+      }
+      return parts;
+    },
+  },
+];
+
+const regionOf = (chunkCoord: number) => Math.floor(chunkCoord / REGION_CHUNKS);
+
+// The structure in a region, if any. Pure: the same for every chunk that asks.
+export const getRegionStructure = (worldSeed: number, rx: number, rz: number): Structure | null => {
+  const regionSeed = hashCoords(hashCoords(worldSeed, 5, 0), rx, rz);
+  let draws = 0;
+  const rand = () => seededRandom(regionSeed + draws++);
+  if (rand() > STRUCTURE_CHANCE) return null;
+
+  const span = REGION_CHUNKS * CHUNK_SIZE;
+  const minX = rx * span - CHUNK_SIZE / 2;
+  const minZ = rz * span - CHUNK_SIZE / 2;
+  const x = minX + MAX_STRUCTURE_RADIUS + rand() * (span - MAX_STRUCTURE_RADIUS * 2);
+  const z = minZ + MAX_STRUCTURE_RADIUS + rand() * (span - MAX_STRUCTURE_RADIUS * 2);
+
+  // Same biome as the chunk the centre falls in
+  const biome = lookupBiome(sampleClimate(worldSeed, Math.round(x / CHUNK_SIZE), Math.round(z / CHUNK_SIZE)));
+  const template = STRUCTURE_TEMPLATES.find(t => t.biome === biome);
+  if (!template) return null;
+
+  // Only stilts stand in water
+  const ground = getTerrainHeight(worldSeed, x, z);
+  if (template.minFloor === undefined && ground < WATER_LEVEL + 0.5) return null;
+
+  const yaw = rand() * Math.PI * 2;
+  const floor = Math.max(ground, template.minFloor ?? -Infinity);
+  const objects = template.build(rand).map((p): WorldObject => {
+    const [ox, oz] = rotateXZ(p.x, p.z, yaw);
+    let anchor = floor;
+    if (p.ground) {
+      const [gx, gz] = rotateXZ(p.ground[0], p.ground[1], yaw);
+      anchor = getTerrainHeight(worldSeed, x + gx, z + gz);
+    }
+    return { type: p.type, x: x + ox, y: anchor + p.y, z: z + oz, scale: p.scale, color: p.color, rotation: yaw + (p.rotation ?? 0) };
+  });
+
+  return { kind: template.kind, x, z, radius: template.radius, objects };
+};
+
+// Scenery allowed to spawn below the water line
+const AQUATIC: WorldObject['type'][] = ['reed'];
+
+export const generateChunkData = (cx: number, cz: number, worldSeed: number): ChunkData => {
   const id = `${cx},${cz}`;
-  // 2D Noise simulation for biomes
-  const scale = 0.05;
-  const noise = Math.sin(cx * scale) + Math.cos(cz * scale) * 0.8 + Math.sin((cx + cz) * 0.1) * 0.5;
-  const detailNoise = Math.sin(cx * 0.2) * Math.cos(cz * 0.2); // High freq noise for details
-
-  let biomeType: BiomeType = 'forest';
-  let groundColor = '#2d6a4f';
-  let hasWater = false;
-
-  // Expanded Biome Distribution
-  if (noise > 1.5) { biomeType = 'snow'; groundColor = '#e0fbfc'; }
-  else if (noise > 1.0) { biomeType = 'magical'; groundColor = '#240046'; }
-  else if (noise > 0.6) { biomeType = 'forest'; groundColor = '#2d6a4f'; }
-  else if (noise > 0.2) { biomeType = 'plains'; groundColor = '#90be6d'; }
-  else if (noise > -0.2) { biomeType = 'swamp'; groundColor = '#3a5a40'; hasWater = true; }
-  else if (noise > -0.6) { biomeType = 'beach'; groundColor = '#f4a261'; hasWater = true; }
-  else if (noise > -1.3) { biomeType = 'desert'; groundColor = '#e9c46a'; }
-  else { biomeType = 'volcanic'; groundColor = '#370617'; }
-
-  const objects: WorldObject[] = [];
-  const seedBase = cx * 10000 + cz;
+  const climate = sampleClimate(worldSeed, cx, cz);
+  const biomeType = lookupBiome(climate);
+  const biome = BIOMES[biomeType];
+  const groundColor = biome.groundColor;
+
+  const heights = buildHeightmap(worldSeed, cx, cz);
+  const hasWater = heights.some(h => h < WATER_LEVEL);
+  const chunk: ChunkData = { id, x: cx, z: cz, biomeType, objects: [], groundColor, hasWater, heights };
+  const groundAt = (localX: number, localZ: number) => sampleChunkHeight(chunk, localX, localZ);
+
+  const objects = chunk.objects;
+  const seedBase = hashCoords(worldSeed, cx, cz);
   
   // Objects Generation
-  const density = 
-    biomeType === 'forest' ? 12 : 
-    biomeType === 'desert' ? 4 : 
-    biomeType === 'plains' ? 8 :
-    biomeType === 'swamp' ? 15 :
-    biomeType === 'beach' ? 5 : 10;
+  const density = biome.density;
 
   const objectCount = Math.floor(seededRandom(seedBase) * density) + 3;
 
-  // Water Layer
-  if (hasWater) {
-      objects.push({
-          type: 'water',
-          x: 0,
-          y: 0.2, // Slightly above ground
-          z: 0,
-          scale: [CHUNK_SIZE, 1, CHUNK_SIZE],
-          color: biomeType === 'swamp' ? '#4d908e' : '#00b4d8', // Murky vs Clear blue
-          rotation: 0
-      });
-  }
-
   // Chance for ancient ruins (Rare)
-  const hasRuins = seededRandom(seedBase + 888) > 0.95;
+  const hasRuins = seededRandom(seedBase + 888) > 0.95 && groundAt(0, 0) > WATER_LEVEL;
   if (hasRuins) {
      objects.push({
          type: 'ruins',
          x: 0,
-         y: 1,
+         y: groundAt(0, 0) + 1,
          z: 0,
          scale: [2, 3 + seededRandom(seedBase)*3, 2],
          color: biomeType === 'snow' ? '#adb5bd' : '#5c5c5c',
@@ -100,7 +550,7 @@ export const generateChunkData = (cx: number, cz: number): ChunkData => {
     
     let type: WorldObject['type'] = 'tree';
     let height = 1 + r3 * 3;
-    let y = 0;
+    let y = groundAt(localX, localZ);
     let color = '#fff';
     let scale: [number, number, number] = [1, 1, 1];
     let rot = r1 * Math.PI * 2;
@@ -213,6 +663,9 @@ export const generateChunkData = (cx: number, cz: number): ChunkData => {
             break;
     }
 
+    // Nothing but reeds grows underwater
+    if (y < WATER_LEVEL && !AQUATIC.includes(type)) continue;
+
     objects.push({
       type,
       x: localX,
@@ -224,12 +677,24 @@ export const generateChunkData = (cx: number, cz: number): ChunkData => {
     });
   }
 
+  // Structure parts centred in this chunk, on ground cleared of random scenery
+  const structure = getRegionStructure(worldSeed, regionOf(cx), regionOf(cz));
+  if (structure) {
+    const ox = cx * CHUNK_SIZE;
+    const oz = cz * CHUNK_SIZE;
+    chunk.objects = objects.filter(obj => Math.hypot(ox + obj.x - structure.x, oz + obj.z - structure.z) > structure.radius + 1);
+    for (const obj of structure.objects) {
+      if (Math.round(obj.x / CHUNK_SIZE) !== cx || Math.round(obj.z / CHUNK_SIZE) !== cz) continue;
+      chunk.objects.push({ ...obj, x: obj.x - ox, z: obj.z - oz });
+    }
+  }
+
   // Clouds
   if (seededRandom(seedBase + 99) > 0.6) {
-    objects.push({
+    chunk.objects.push({
       type: 'cloud',
       x: (seededRandom(seedBase + 100) - 0.5) * CHUNK_SIZE,
-      y: 12 + seededRandom(seedBase + 101) * 5,
+      y: Math.max(WATER_LEVEL, groundAt(0, 0)) + 12 + seededRandom(seedBase + 101) * 5,
       z: (seededRandom(seedBase + 102) - 0.5) * CHUNK_SIZE,
       scale: [3 + seededRandom(seedBase)*3, 1, 2 + seededRandom(seedBase+1)*2],
       color: '#ffffff',
@@ -237,5 +702,5 @@ export const generateChunkData = (cx: number, cz: number): ChunkData => {
     });
   }
 
-  return { id, x: cx, z: cz, biomeType, objects, groundColor, hasWater };
+  return chunk;
 };